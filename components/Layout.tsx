@@ -1,5 +1,6 @@
 // Layout component - provides consistent header and navigation across pages
 import Link from 'next/link';
+import { useRouter } from 'next/router';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -8,6 +9,10 @@ interface LayoutProps {
 }
 
 export default function Layout({ children, title, description }: LayoutProps) {
+  // Keep the selected event when moving between pages
+  const { query } = useRouter();
+  const eventQuery = typeof query.event === 'string' ? { event: query.event } : undefined;
+
   return (
     <div>
       {/* Header section with title and description */}
@@ -22,10 +27,10 @@ export default function Layout({ children, title, description }: LayoutProps) {
       <nav className="nav">
         <div className="container">
           <div className="nav-container">
-            <Link href="/" className="nav-link">
+            <Link href={{ pathname: '/', query: eventQuery }} className="nav-link">
               Team Registration
             </Link>
-            <Link href="/scoreboard" className="nav-link">
+            <Link href={{ pathname: '/scoreboard', query: eventQuery }} className="nav-link">
               Live Scoreboard
             </Link>
           </div>
@@ -0,0 +1,23 @@
+// Organizer authentication for admin API routes
+// Organizers send the ADMIN_API_KEY as a bearer token: `Authorization: Bearer <key>`
+
+import { createHash, timingSafeEqual } from 'crypto';
+import type { NextApiRequest } from 'next';
+
+/**
+ * Check whether a request comes from an organizer
+ * Always false when ADMIN_API_KEY is not configured, so admin routes are closed by default
+ */
+export function isOrganizerRequest(req: NextApiRequest): boolean {
+  const adminKey = process.env.ADMIN_API_KEY;
+  const header = req.headers.authorization;
+
+  if (!adminKey || !header || header.indexOf('Bearer ') !== 0) {
+    return false;
+  }
+
+  // Compare fixed-length digests so the check takes the same time for any input
+  const provided = createHash('sha256').update(header.slice('Bearer '.length)).digest();
+  const expected = createHash('sha256').update(adminKey).digest();
+  return timingSafeEqual(provided, expected);
+}
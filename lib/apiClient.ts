@@ -0,0 +1,414 @@
+// API client
+// Typed functions for AR Treasure Hunt API 1.0.0.
+// Generated from GET /api/openapi.json by scripts/generate-api-client.js - do not edit.
+// Regenerate with `npm run generate:api-client` after changing lib/openapi.ts or lib/apiSchemas.ts.
+
+export interface RegisterRequest {
+  teamName: string; // Team name
+  player1: string; // Player 1 name
+  player2: string; // Player 2 name
+  email: string; // Email
+  phoneNumber: string; // Phone number
+  otp?: string; // Verification code - leave out (or empty) to have one sent
+  event?: string; // Event ID, instead of the `event` query parameter
+}
+
+// Step 1 of registration: a verification code was sent
+export interface RegisterCodeSent {
+  success: true;
+  data: {
+    otpSent: true;
+    channel: 'email' | 'sms';
+    sentTo: string; // Email address, or masked phone number for SMS
+    expiresInMinutes: number;
+    deliveryId?: string; // SMS only - look up with GET /api/v1/otp-delivery
+  };
+}
+
+// Step 2 of registration: the team was created
+export interface RegisterCreated {
+  success: true;
+  data: {
+    teamNumber: number;
+    teamName: string;
+    uid: string;
+    player1: string;
+    player2: string;
+    email: string;
+    phoneNumber: string;
+    score: number;
+    teamToken: string; // Secret for update-score and team lookups - shown only once
+    verified: boolean;
+  };
+}
+
+export interface UpdateScoreRequest {
+  uid: string; // Team UID
+  scoreIncrement: number; // Points to add (negative to deduct)
+  source?: string; // Where the points came from - defaults to "unity"
+  reason?: string;
+  eventId?: string; // Idempotency key, if not sent as the Idempotency-Key header
+  event?: string; // Event ID, instead of the `event` query parameter
+}
+
+export interface UpdateScoreResult {
+  success: true;
+  message: string;
+}
+
+export interface ScoreBatchEvent {
+  eventId: string; // Idempotency key, shared with update-score
+  scoreIncrement: number; // Points to add (negative to deduct)
+  clientTimestamp: number; // When it happened on the device (Unix time in milliseconds)
+  source?: string; // Where the points came from - defaults to "unity"
+  reason?: string;
+}
+
+// One team's queued scoring events, applied in order
+export interface UpdateScoreBatchRequest {
+  uid: string; // Team UID
+  events: ScoreBatchEvent[];
+  event?: string; // Event ID, instead of the `event` query parameter
+}
+
+export interface ScoreBatchEventResult {
+  index: number; // Position in the request's events
+  eventId: string;
+  status: 'applied' | 'duplicate' | 'rejected';
+  code?: ErrorCode;
+  error?: string;
+}
+
+export interface UpdateScoreBatchResult {
+  success: true;
+  data: {
+    uid: string;
+    applied: number;
+    scoreIncrement: number; // Total of the applied events
+    results: ScoreBatchEventResult[];
+  };
+}
+
+export interface Team {
+  uid: string;
+  teamNumber: number;
+  teamName: string;
+  player1: string;
+  player2: string;
+  email: string; // Canonical form
+  phoneNumber: string; // E.164
+  emailDisplay?: string; // As typed at registration
+  phoneNumberDisplay?: string; // As typed at registration
+  score: number;
+  createdAt: number; // Unix time in milliseconds
+  disqualified?: boolean;
+  disqualifiedReason?: string;
+  verified?: boolean;
+  verifiedVia?: 'email' | 'sms';
+}
+
+export interface TeamResult {
+  success: true;
+  data: Team;
+}
+
+// One of uid or teamName
+export interface TeamLookupRequest {
+  uid?: string;
+  teamName?: string;
+  event?: string; // Event ID, instead of the `event` query parameter
+}
+
+export interface ScoreboardTeam {
+  teamName: string;
+  teamNumber: number;
+  score: number;
+  rank: number; // 1 for the highest score; tied teams share a rank
+}
+
+export interface ScoreboardResult {
+  success: true;
+  data: ScoreboardSnapshot;
+}
+
+// The ranked scoreboard (also the data of `scoreboard` stream events)
+export interface ScoreboardSnapshot {
+  teams: ScoreboardTeam[];
+  totalTeams: number;
+  lastUpdated: string;
+}
+
+// Data of `score` stream events: one team's score changed
+export interface ScoreChangeEvent {
+  teamName: string;
+  teamNumber: number;
+  score: number;
+  previousScore: number;
+  change: number;
+  rank: number; // Rank after the change
+}
+
+// Data of `heartbeat` stream events
+export interface StreamHeartbeat {
+  time: string;
+}
+
+// Data of `stream-error` events: live updates are interrupted and the last `scoreboard` event still stands
+export interface StreamError {
+  error: string;
+  time: string;
+}
+
+export interface ScoreEvent {
+  id: string;
+  uid: string;
+  amount: number;
+  source: string;
+  reason: string;
+  createdAt: number; // Unix time in milliseconds
+  occurredAt?: number; // Client timestamp, for events sent in a batch (Unix time in milliseconds)
+}
+
+export interface ScoreReconciliation {
+  uid: string;
+  storedScore: number;
+  ledgerScore: number; // Sum of the score events
+  eventCount: number;
+  inSync: boolean;
+}
+
+export interface ScoreEventsResult {
+  success: true;
+  data: {
+    events: ScoreEvent[];
+    reconciliation: ScoreReconciliation;
+  };
+}
+
+export interface OtpDeliveryResult {
+  success: true;
+  data: {
+    deliveryId: string;
+    status: 'queued' | 'sent' | 'delivered' | 'failed' | 'unknown';
+    sentTo: string; // Masked phone number
+    sentAt: string;
+    updatedAt: string;
+  };
+}
+
+export interface TeamTokenRequest {
+  uid: string;
+  action: 'rotate' | 'revoke';
+  event?: string; // Event ID, instead of the `event` query parameter
+}
+
+export interface TeamTokenResult {
+  success: true;
+  data: {
+    uid: string;
+    action: 'rotate' | 'revoke';
+    teamToken?: string; // Only present after a rotation
+  };
+}
+
+// Stable error code
+export type ErrorCode =
+  | 'VALIDATION_FAILED'
+  | 'INVALID_JSON'
+  | 'INVALID_EVENT_ID'
+  | 'INVALID_IDEMPOTENCY_KEY'
+  | 'TEAM_NAME_BLOCKED'
+  | 'METHOD_NOT_ALLOWED'
+  | 'UNAUTHORIZED'
+  | 'SIGNATURE_MISSING'
+  | 'SIGNATURE_INVALID'
+  | 'SIGNATURE_EXPIRED'
+  | 'SIGNATURE_REPLAYED'
+  | 'TEAM_TOKEN_MISSING'
+  | 'TEAM_TOKEN_INVALID'
+  | 'TEAM_TOKEN_NOT_ISSUED'
+  | 'OTP_INVALID'
+  | 'OTP_EXPIRED'
+  | 'OTP_COOLDOWN'
+  | 'OTP_LOCKED'
+  | 'OTP_RATE_LIMITED'
+  | 'TEAM_DISQUALIFIED'
+  | 'EVENT_NOT_FOUND'
+  | 'TEAM_NOT_FOUND'
+  | 'DELIVERY_NOT_FOUND'
+  | 'TEAM_NAME_TAKEN'
+  | 'EMAIL_TAKEN'
+  | 'EVENT_EXISTS'
+  | 'IDEMPOTENCY_IN_PROGRESS'
+  | 'IDEMPOTENCY_KEY_REUSED'
+  | 'RATE_LIMITED'
+  | 'OTP_DELIVERY_FAILED'
+  | 'TEAM_INDEX_UNAVAILABLE'
+  | 'INTERNAL_ERROR';
+
+export interface FieldError {
+  field: 'teamName' | 'player1' | 'player2' | 'email' | 'phoneNumber' | 'otp';
+  code: 'REQUIRED' | 'INVALID_TYPE' | 'TOO_SHORT' | 'TOO_LONG' | 'INVALID_FORMAT' | 'NOT_ALLOWED';
+  message: string;
+}
+
+// Every error response
+export interface ErrorResponse {
+  success: false;
+  error: string; // For people - may change between versions
+  code: ErrorCode;
+  fieldErrors?: FieldError[]; // VALIDATION_FAILED and TEAM_NAME_BLOCKED: one entry per invalid field
+  suggestions?: string[]; // TEAM_NAME_TAKEN: free names to offer instead
+}
+
+export interface ApiRequestOptions {
+  baseUrl?: string; // Defaults to the page's origin
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+/**
+ * URL of an API path with its query string
+ */
+function buildUrl(path: string, query: Record<string, string | undefined>, options: ApiRequestOptions): string {
+  const search = Object.keys(query)
+    .filter(name => query[name] !== undefined && query[name] !== '')
+    .map(name => `${encodeURIComponent(name)}=${encodeURIComponent(query[name] as string)}`)
+    .join('&');
+  return `${options.baseUrl || ''}${path}${search ? `?${search}` : ''}`;
+}
+
+/**
+ * Send a request and parse the JSON response
+ * API errors resolve to an ErrorResponse; only network failures and non-JSON responses reject.
+ */
+async function request<T>(
+  method: string,
+  path: string,
+  query: Record<string, string | undefined>,
+  body: unknown,
+  options: ApiRequestOptions
+): Promise<T | ErrorResponse> {
+  const response = await fetch(buildUrl(path, query, options), {
+    method,
+    headers: {
+      ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      ...options.headers
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+    signal: options.signal
+  });
+  return response.json();
+}
+
+/**
+ * Register a team in two steps: request a verification code, then send it back with the same details
+ */
+export function registerTeam(
+  body: RegisterRequest,
+  query: { event?: string } = {},
+  options: ApiRequestOptions = {}
+): Promise<RegisterCreated | RegisterCodeSent | ErrorResponse> {
+  return request<RegisterCreated | RegisterCodeSent>('POST', '/api/v1/register', query, body, options);
+}
+
+/**
+ * Add points to a team's score
+ * Send x-signature, x-signature-timestamp and x-team-token in options.headers
+ * Optional idempotency-key header: Retries with the same key replay the first result instead of scoring twice
+ */
+export function updateScore(
+  body: UpdateScoreRequest,
+  query: { event?: string } = {},
+  options: ApiRequestOptions = {}
+): Promise<UpdateScoreResult | ErrorResponse> {
+  return request<UpdateScoreResult>('POST', '/api/v1/update-score', query, body, options);
+}
+
+/**
+ * Apply one team's queued scoring events in order, in a single write
+ * Send x-signature, x-signature-timestamp and x-team-token in options.headers
+ */
+export function updateScoreBatch(
+  body: UpdateScoreBatchRequest,
+  query: { event?: string } = {},
+  options: ApiRequestOptions = {}
+): Promise<UpdateScoreBatchResult | ErrorResponse> {
+  return request<UpdateScoreBatchResult>('POST', '/api/v1/update-score/batch', query, body, options);
+}
+
+/**
+ * Look up a team by UID or name
+ * Send x-signature, x-signature-timestamp and x-team-token in options.headers
+ */
+export function getTeam(
+  query: { event?: string; uid?: string; teamName?: string } = {},
+  options: ApiRequestOptions = {}
+): Promise<TeamResult | ErrorResponse> {
+  return request<TeamResult>('GET', '/api/v1/team', query, undefined, options);
+}
+
+/**
+ * Look up a team by UID or name, sent in the body
+ * Send x-signature, x-signature-timestamp and x-team-token in options.headers
+ */
+export function lookupTeam(
+  body: TeamLookupRequest,
+  query: { event?: string } = {},
+  options: ApiRequestOptions = {}
+): Promise<TeamResult | ErrorResponse> {
+  return request<TeamResult>('POST', '/api/v1/team', query, body, options);
+}
+
+/**
+ * Ranked public scoreboard (disqualified teams are left out)
+ */
+export function getScoreboard(
+  query: { event?: string } = {},
+  options: ApiRequestOptions = {}
+): Promise<ScoreboardResult | ErrorResponse> {
+  return request<ScoreboardResult>('GET', '/api/v1/scoreboard', query, undefined, options);
+}
+
+/**
+ * Scoreboard updates as Server-Sent Events, with a heartbeat every 15 seconds
+ * Open with new EventSource(url) - Server-Sent Events: `scoreboard` (ScoreboardSnapshot), `score` (ScoreChangeEvent), `heartbeat` (StreamHeartbeat), `stream-error` (StreamError)
+ */
+export function streamScoreboardUrl(
+  query: { event?: string; lastEventId?: string } = {},
+  options: ApiRequestOptions = {}
+): string {
+  return buildUrl('/api/v1/scoreboard/stream', query, options);
+}
+
+/**
+ * A team's score ledger, reconciled against its stored score
+ */
+export function getScoreEvents(
+  query: { event?: string; uid: string },
+  options: ApiRequestOptions = {}
+): Promise<ScoreEventsResult | ErrorResponse> {
+  return request<ScoreEventsResult>('GET', '/api/v1/score-events', query, undefined, options);
+}
+
+/**
+ * Delivery status of a verification code sent by SMS
+ */
+export function getOtpDelivery(
+  query: { event?: string; id: string },
+  options: ApiRequestOptions = {}
+): Promise<OtpDeliveryResult | ErrorResponse> {
+  return request<OtpDeliveryResult>('GET', '/api/v1/otp-delivery', query, undefined, options);
+}
+
+/**
+ * Rotate or revoke a team's token
+ * Send Authorization: Bearer in options.headers
+ */
+export function manageTeamToken(
+  body: TeamTokenRequest,
+  query: { event?: string } = {},
+  options: ApiRequestOptions = {}
+): Promise<TeamTokenResult | ErrorResponse> {
+  return request<TeamTokenResult>('POST', '/api/v1/team-token', query, body, options);
+}
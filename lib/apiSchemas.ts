@@ -0,0 +1,469 @@
+// API v1 JSON schemas
+// JSON Schema versions of the contracts in lib/apiV1.ts, for the OpenAPI document (lib/openapi.ts).
+// objectSchema is typed against the contract it describes, so adding, removing or making a field
+// optional in lib/apiV1.ts doesn't compile until the schema here matches.
+
+import type { ApiErrorCode, ApiErrorResponse } from './errors';
+import type {
+  V1RegisterRequest,
+  V1RegisterCodeSent,
+  V1RegisterCreated,
+  V1UpdateScoreRequest,
+  V1UpdateScoreResult,
+  V1ScoreBatchEvent,
+  V1UpdateScoreBatchRequest,
+  V1ScoreBatchEventResult,
+  V1UpdateScoreBatchResult,
+  V1Team,
+  V1TeamResult,
+  V1TeamLookupRequest,
+  V1ScoreboardTeam,
+  V1ScoreboardResult,
+  V1ScoreboardSnapshot,
+  V1ScoreChangeEvent,
+  V1StreamHeartbeat,
+  V1StreamError,
+  V1ScoreEvent,
+  V1ScoreReconciliation,
+  V1ScoreEventsResult,
+  V1OtpDeliveryResult,
+  V1TeamTokenRequest,
+  V1TeamTokenResult
+} from './apiV1';
+import {
+  REGISTRATION_SCHEMA,
+  type FieldError,
+  type FieldErrorCode,
+  type RegistrationField
+} from './registrationSchema';
+import { VERIFICATION_CHANNELS } from './events';
+import type { SmsDeliveryStatus } from './sms';
+
+export interface JsonSchema {
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array';
+  description?: string;
+  enum?: Array<string | number>;
+  const?: string | number | boolean;
+  format?: string;
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  oneOf?: JsonSchema[];
+  $ref?: string;
+}
+
+// Named schemas, served under components.schemas
+export type ApiSchemaName =
+  | 'RegisterRequest'
+  | 'RegisterCodeSent'
+  | 'RegisterCreated'
+  | 'UpdateScoreRequest'
+  | 'UpdateScoreResult'
+  | 'ScoreBatchEvent'
+  | 'UpdateScoreBatchRequest'
+  | 'ScoreBatchEventResult'
+  | 'UpdateScoreBatchResult'
+  | 'Team'
+  | 'TeamResult'
+  | 'TeamLookupRequest'
+  | 'ScoreboardTeam'
+  | 'ScoreboardResult'
+  | 'ScoreboardSnapshot'
+  | 'ScoreChangeEvent'
+  | 'StreamHeartbeat'
+  | 'StreamError'
+  | 'ScoreEvent'
+  | 'ScoreReconciliation'
+  | 'ScoreEventsResult'
+  | 'OtpDeliveryResult'
+  | 'TeamTokenRequest'
+  | 'TeamTokenResult'
+  | 'ErrorCode'
+  | 'FieldError'
+  | 'ErrorResponse';
+
+// A property that may be left out (see optional)
+export interface OptionalSchema {
+  optional: true;
+  schema: JsonSchema;
+}
+
+// Optional properties of T need optional(...), required ones a plain schema
+type PropertySchemas<T> = {
+  [K in keyof T]-?: undefined extends T[K] ? OptionalSchema : JsonSchema;
+};
+
+/**
+ * Mark an object property as optional
+ */
+export function optional(schema: JsonSchema): OptionalSchema {
+  return { optional: true, schema };
+}
+
+function isOptional(schema: JsonSchema | OptionalSchema): schema is OptionalSchema {
+  return (schema as OptionalSchema).optional === true;
+}
+
+/**
+ * Schema for an object of type T
+ * `required` lists every property not wrapped in optional().
+ */
+export function objectSchema<T>(properties: PropertySchemas<T>, description?: string): JsonSchema {
+  const schemas = properties as unknown as Record<string, JsonSchema | OptionalSchema>;
+  const result: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  Object.keys(schemas).forEach(key => {
+    const schema = schemas[key];
+    if (isOptional(schema)) {
+      result[key] = schema.schema;
+    } else {
+      result[key] = schema;
+      required.push(key);
+    }
+  });
+
+  return {
+    type: 'object',
+    ...(description ? { description } : {}),
+    properties: result,
+    required
+  };
+}
+
+export function stringSchema(description?: string): JsonSchema {
+  return description ? { type: 'string', description } : { type: 'string' };
+}
+
+export function integerSchema(description?: string): JsonSchema {
+  return description ? { type: 'integer', description } : { type: 'integer' };
+}
+
+export function booleanSchema(description?: string): JsonSchema {
+  return description ? { type: 'boolean', description } : { type: 'boolean' };
+}
+
+export function constSchema(value: string | number | boolean): JsonSchema {
+  return { const: value };
+}
+
+export function enumSchema(values: string[], description?: string): JsonSchema {
+  return description ? { type: 'string', enum: values, description } : { type: 'string', enum: values };
+}
+
+export function arraySchema(items: JsonSchema): JsonSchema {
+  return { type: 'array', items };
+}
+
+export function ref(name: ApiSchemaName): JsonSchema {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+// HTTP status of every error code. Typed as a Record so a new code can't be left out of the document.
+export const API_ERROR_STATUSES: Record<ApiErrorCode, number> = {
+  VALIDATION_FAILED: 400,
+  INVALID_JSON: 400,
+  INVALID_EVENT_ID: 400,
+  INVALID_IDEMPOTENCY_KEY: 400,
+  TEAM_NAME_BLOCKED: 400,
+  METHOD_NOT_ALLOWED: 405,
+  UNAUTHORIZED: 401,
+  SIGNATURE_MISSING: 401,
+  SIGNATURE_INVALID: 401,
+  SIGNATURE_EXPIRED: 401,
+  SIGNATURE_REPLAYED: 401,
+  TEAM_TOKEN_MISSING: 401,
+  TEAM_TOKEN_INVALID: 401,
+  TEAM_TOKEN_NOT_ISSUED: 401,
+  OTP_INVALID: 401,
+  OTP_EXPIRED: 401,
+  OTP_COOLDOWN: 429,
+  OTP_LOCKED: 429,
+  OTP_RATE_LIMITED: 429,
+  TEAM_DISQUALIFIED: 403,
+  EVENT_NOT_FOUND: 404,
+  TEAM_NOT_FOUND: 404,
+  DELIVERY_NOT_FOUND: 404,
+  TEAM_NAME_TAKEN: 409,
+  EMAIL_TAKEN: 409,
+  EVENT_EXISTS: 409,
+  IDEMPOTENCY_IN_PROGRESS: 409,
+  IDEMPOTENCY_KEY_REUSED: 422,
+  RATE_LIMITED: 429,
+  OTP_DELIVERY_FAILED: 502,
+  TEAM_INDEX_UNAVAILABLE: 503,
+  INTERNAL_ERROR: 500
+};
+
+const FIELD_ERROR_CODES: Record<FieldErrorCode, true> = {
+  REQUIRED: true,
+  INVALID_TYPE: true,
+  TOO_SHORT: true,
+  TOO_LONG: true,
+  INVALID_FORMAT: true,
+  NOT_ALLOWED: true
+};
+
+const SMS_DELIVERY_STATUSES: Record<SmsDeliveryStatus, true> = {
+  queued: true,
+  sent: true,
+  delivered: true,
+  failed: true,
+  unknown: true
+};
+
+/**
+ * Schema for a registration field, from the rules the form and the API validate with
+ */
+function registrationFieldSchema(field: RegistrationField): JsonSchema {
+  const rule = REGISTRATION_SCHEMA[field];
+  const schema: JsonSchema = { type: 'string', description: rule.label };
+  if (rule.minLength !== undefined) {
+    schema.minLength = rule.minLength;
+  }
+  if (rule.maxLength !== undefined) {
+    schema.maxLength = rule.maxLength;
+  }
+  if (rule.pattern) {
+    // Optional fields may also be sent empty
+    schema.pattern = rule.required ? rule.pattern.source : `^$|${rule.pattern.source}`;
+  }
+  return schema;
+}
+
+const eventProperty = optional(stringSchema('Event ID, instead of the `event` query parameter'));
+const verificationChannel = enumSchema(VERIFICATION_CHANNELS);
+const tokenAction = enumSchema(['rotate', 'revoke']);
+const isoTimestamp: JsonSchema = { type: 'string', format: 'date-time' };
+const unixMillis = integerSchema('Unix time in milliseconds');
+
+export const API_SCHEMAS: Record<ApiSchemaName, JsonSchema> = {
+  RegisterRequest: objectSchema<V1RegisterRequest>({
+    teamName: registrationFieldSchema('teamName'),
+    player1: registrationFieldSchema('player1'),
+    player2: registrationFieldSchema('player2'),
+    email: registrationFieldSchema('email'),
+    phoneNumber: registrationFieldSchema('phoneNumber'),
+    otp: optional({
+      ...registrationFieldSchema('otp'),
+      description: 'Verification code - leave out (or empty) to have one sent'
+    }),
+    event: eventProperty
+  }),
+
+  RegisterCodeSent: objectSchema<V1RegisterCodeSent>({
+    success: constSchema(true),
+    data: objectSchema<V1RegisterCodeSent['data']>({
+      otpSent: constSchema(true),
+      channel: verificationChannel,
+      sentTo: stringSchema('Email address, or masked phone number for SMS'),
+      expiresInMinutes: integerSchema(),
+      deliveryId: optional(stringSchema('SMS only - look up with GET /api/v1/otp-delivery'))
+    })
+  }, 'Step 1 of registration: a verification code was sent'),
+
+  RegisterCreated: objectSchema<V1RegisterCreated>({
+    success: constSchema(true),
+    data: objectSchema<V1RegisterCreated['data']>({
+      teamNumber: integerSchema(),
+      teamName: stringSchema(),
+      uid: stringSchema(),
+      player1: stringSchema(),
+      player2: stringSchema(),
+      email: stringSchema(),
+      phoneNumber: stringSchema(),
+      score: integerSchema(),
+      teamToken: stringSchema('Secret for update-score and team lookups - shown only once'),
+      verified: booleanSchema()
+    })
+  }, 'Step 2 of registration: the team was created'),
+
+  UpdateScoreRequest: objectSchema<V1UpdateScoreRequest>({
+    uid: stringSchema('Team UID'),
+    scoreIncrement: integerSchema('Points to add (negative to deduct)'),
+    source: optional(stringSchema('Where the points came from - defaults to "unity"')),
+    reason: optional(stringSchema()),
+    eventId: optional(stringSchema('Idempotency key, if not sent as the Idempotency-Key header')),
+    event: eventProperty
+  }),
+
+  UpdateScoreResult: objectSchema<V1UpdateScoreResult>({
+    success: constSchema(true),
+    message: stringSchema()
+  }),
+
+  ScoreBatchEvent: objectSchema<V1ScoreBatchEvent>({
+    eventId: stringSchema('Idempotency key, shared with update-score'),
+    scoreIncrement: integerSchema('Points to add (negative to deduct)'),
+    clientTimestamp: integerSchema('When it happened on the device (Unix time in milliseconds)'),
+    source: optional(stringSchema('Where the points came from - defaults to "unity"')),
+    reason: optional(stringSchema())
+  }),
+
+  UpdateScoreBatchRequest: objectSchema<V1UpdateScoreBatchRequest>({
+    uid: stringSchema('Team UID'),
+    events: arraySchema(ref('ScoreBatchEvent')),
+    event: eventProperty
+  }, "One team's queued scoring events, applied in order"),
+
+  ScoreBatchEventResult: objectSchema<V1ScoreBatchEventResult>({
+    index: integerSchema("Position in the request's events"),
+    eventId: stringSchema(),
+    status: enumSchema(['applied', 'duplicate', 'rejected']),
+    code: optional({ ...ref('ErrorCode'), description: 'Rejected events only' }),
+    error: optional(stringSchema())
+  }),
+
+  UpdateScoreBatchResult: objectSchema<V1UpdateScoreBatchResult>({
+    success: constSchema(true),
+    data: objectSchema<V1UpdateScoreBatchResult['data']>({
+      uid: stringSchema(),
+      applied: integerSchema(),
+      scoreIncrement: integerSchema('Total of the applied events'),
+      results: arraySchema(ref('ScoreBatchEventResult'))
+    })
+  }),
+
+  Team: objectSchema<V1Team>({
+    uid: stringSchema(),
+    teamNumber: integerSchema(),
+    teamName: stringSchema(),
+    player1: stringSchema(),
+    player2: stringSchema(),
+    email: stringSchema('Canonical form'),
+    phoneNumber: stringSchema('E.164'),
+    emailDisplay: optional(stringSchema('As typed at registration')),
+    phoneNumberDisplay: optional(stringSchema('As typed at registration')),
+    score: integerSchema(),
+    createdAt: unixMillis,
+    disqualified: optional(booleanSchema()),
+    disqualifiedReason: optional(stringSchema()),
+    verified: optional(booleanSchema()),
+    verifiedVia: optional(verificationChannel)
+  }),
+
+  TeamResult: objectSchema<V1TeamResult>({
+    success: constSchema(true),
+    data: ref('Team')
+  }),
+
+  TeamLookupRequest: objectSchema<V1TeamLookupRequest>({
+    uid: optional(stringSchema()),
+    teamName: optional(stringSchema()),
+    event: eventProperty
+  }, 'One of uid or teamName'),
+
+  ScoreboardTeam: objectSchema<V1ScoreboardTeam>({
+    teamName: stringSchema(),
+    teamNumber: integerSchema(),
+    score: integerSchema(),
+    rank: integerSchema('1 for the highest score; tied teams share a rank')
+  }),
+
+  ScoreboardResult: objectSchema<V1ScoreboardResult>({
+    success: constSchema(true),
+    data: ref('ScoreboardSnapshot')
+  }),
+
+  ScoreboardSnapshot: objectSchema<V1ScoreboardSnapshot>({
+    teams: arraySchema(ref('ScoreboardTeam')),
+    totalTeams: integerSchema(),
+    lastUpdated: isoTimestamp
+  }, 'The ranked scoreboard (also the data of `scoreboard` stream events)'),
+
+  ScoreChangeEvent: objectSchema<V1ScoreChangeEvent>({
+    teamName: stringSchema(),
+    teamNumber: integerSchema(),
+    score: integerSchema(),
+    previousScore: integerSchema(),
+    change: integerSchema(),
+    rank: integerSchema('Rank after the change')
+  }, "Data of `score` stream events: one team's score changed"),
+
+  StreamHeartbeat: objectSchema<V1StreamHeartbeat>({
+    time: isoTimestamp
+  }, 'Data of `heartbeat` stream events'),
+
+  StreamError: objectSchema<V1StreamError>({
+    error: stringSchema(),
+    time: isoTimestamp
+  }, 'Data of `stream-error` events: live updates are interrupted and the last `scoreboard` event still stands'),
+
+  ScoreEvent: objectSchema<V1ScoreEvent>({
+    id: stringSchema(),
+    uid: stringSchema(),
+    amount: integerSchema(),
+    source: stringSchema(),
+    reason: stringSchema(),
+    createdAt: unixMillis,
+    occurredAt: optional(integerSchema('Client timestamp, for events sent in a batch (Unix time in milliseconds)'))
+  }),
+
+  ScoreReconciliation: objectSchema<V1ScoreReconciliation>({
+    uid: stringSchema(),
+    storedScore: integerSchema(),
+    ledgerScore: integerSchema('Sum of the score events'),
+    eventCount: integerSchema(),
+    inSync: booleanSchema()
+  }),
+
+  ScoreEventsResult: objectSchema<V1ScoreEventsResult>({
+    success: constSchema(true),
+    data: objectSchema<V1ScoreEventsResult['data']>({
+      events: arraySchema(ref('ScoreEvent')),
+      reconciliation: ref('ScoreReconciliation')
+    })
+  }),
+
+  OtpDeliveryResult: objectSchema<V1OtpDeliveryResult>({
+    success: constSchema(true),
+    data: objectSchema<V1OtpDeliveryResult['data']>({
+      deliveryId: stringSchema(),
+      status: enumSchema(Object.keys(SMS_DELIVERY_STATUSES)),
+      sentTo: stringSchema('Masked phone number'),
+      sentAt: isoTimestamp,
+      updatedAt: isoTimestamp
+    })
+  }),
+
+  TeamTokenRequest: objectSchema<V1TeamTokenRequest>({
+    uid: stringSchema(),
+    action: tokenAction,
+    event: eventProperty
+  }),
+
+  TeamTokenResult: objectSchema<V1TeamTokenResult>({
+    success: constSchema(true),
+    data: objectSchema<V1TeamTokenResult['data']>({
+      uid: stringSchema(),
+      action: tokenAction,
+      teamToken: optional(stringSchema('Only present after a rotation'))
+    })
+  }),
+
+  ErrorCode: enumSchema(Object.keys(API_ERROR_STATUSES), 'Stable error code'),
+
+  FieldError: objectSchema<FieldError>({
+    field: enumSchema(Object.keys(REGISTRATION_SCHEMA)),
+    code: enumSchema(Object.keys(FIELD_ERROR_CODES)),
+    message: stringSchema()
+  }),
+
+  ErrorResponse: objectSchema<ApiErrorResponse>({
+    success: constSchema(false),
+    error: stringSchema('For people - may change between versions'),
+    code: ref('ErrorCode'),
+    fieldErrors: optional({
+      ...arraySchema(ref('FieldError')),
+      description: 'VALIDATION_FAILED and TEAM_NAME_BLOCKED: one entry per invalid field'
+    }),
+    suggestions: optional({
+      ...arraySchema(stringSchema()),
+      description: 'TEAM_NAME_TAKEN: free names to offer instead'
+    })
+  }, 'Every error response')
+};
+
@@ -0,0 +1,286 @@
+// API v1 contracts
+// Game builds can't be updated mid-event, so the requests and responses of /api/v1/* are frozen here.
+// Handlers map internal types (Team, ScoreEvent, ...) onto these explicitly, which keeps
+// changes to lib/ from leaking into v1 responses.
+//
+// Never rename, retype or remove a field below. A different shape belongs in a new version
+// (/api/v2) - v1 keeps serving the old one. Error responses use the shared envelope in
+// lib/errors.ts, which only ever gains codes and optional fields.
+
+import type { Team, PublicTeam, ScoreEvent, ScoreReconciliation } from './firestore';
+import type { VerificationChannel } from './events';
+import type { SmsDeliveryStatus } from './sms';
+import type { ApiErrorCode } from './errors';
+
+export const API_V1_PREFIX = '/api/v1';
+
+// Request bodies. Every request may also name its event with an `event` field (or query parameter).
+
+// POST /api/v1/register - without `otp` (or with an empty one) a code is sent
+export interface V1RegisterRequest {
+  teamName: string;
+  player1: string;
+  player2: string;
+  email: string;
+  phoneNumber: string;
+  otp?: string;
+  event?: string;
+}
+
+// POST /api/v1/update-score
+export interface V1UpdateScoreRequest {
+  uid: string;
+  scoreIncrement: number;
+  source?: string; // Defaults to "unity"
+  reason?: string;
+  eventId?: string; // Idempotency key, if not sent as the Idempotency-Key header
+  event?: string;
+}
+
+// One queued scoring event in a batch
+export interface V1ScoreBatchEvent {
+  eventId: string; // Idempotency key, shared with /api/v1/update-score
+  scoreIncrement: number;
+  clientTimestamp: number; // When it happened on the device (Unix time in milliseconds)
+  source?: string; // Defaults to "unity"
+  reason?: string;
+}
+
+// POST /api/v1/update-score/batch - one team's queued events, applied in order
+export interface V1UpdateScoreBatchRequest {
+  uid: string;
+  events: V1ScoreBatchEvent[];
+  event?: string;
+}
+
+// POST /api/v1/team - one of uid or teamName
+export interface V1TeamLookupRequest {
+  uid?: string;
+  teamName?: string;
+  event?: string;
+}
+
+// POST /api/v1/team-token
+export interface V1TeamTokenRequest {
+  uid: string;
+  action: 'rotate' | 'revoke';
+  event?: string;
+}
+
+// POST /api/v1/register - step 1 (code sent)
+export interface V1RegisterCodeSent {
+  success: true;
+  data: {
+    otpSent: true;
+    channel: VerificationChannel;
+    sentTo: string; // Email address, or masked phone number for SMS
+    expiresInMinutes: number;
+    deliveryId?: string; // SMS only - look up with GET /api/v1/otp-delivery?id=...
+  };
+}
+
+// POST /api/v1/register - step 2 (team created)
+export interface V1RegisterCreated {
+  success: true;
+  data: {
+    teamNumber: number;
+    teamName: string;
+    uid: string;
+    player1: string;
+    player2: string;
+    email: string;
+    phoneNumber: string;
+    score: number;
+    teamToken: string; // Secret for /api/v1/update-score and /api/v1/team - shown only once
+    verified: boolean;
+  };
+}
+
+// POST /api/v1/update-score
+export interface V1UpdateScoreResult {
+  success: true;
+  message: string;
+}
+
+export interface V1ScoreBatchEventResult {
+  index: number; // Position in the request's `events`
+  eventId: string;
+  status: 'applied' | 'duplicate' | 'rejected';
+  code?: ApiErrorCode; // Rejected events only - IDEMPOTENCY_IN_PROGRESS is worth retrying, the rest are not
+  error?: string;
+}
+
+// POST /api/v1/update-score/batch
+export interface V1UpdateScoreBatchResult {
+  success: true;
+  data: {
+    uid: string;
+    applied: number;
+    scoreIncrement: number; // Total of the applied events
+    results: V1ScoreBatchEventResult[]; // In request order
+  };
+}
+
+export interface V1Team {
+  uid: string;
+  teamNumber: number;
+  teamName: string;
+  player1: string;
+  player2: string;
+  email: string;
+  phoneNumber: string;
+  emailDisplay?: string;
+  phoneNumberDisplay?: string;
+  score: number;
+  createdAt: number;
+  disqualified?: boolean;
+  disqualifiedReason?: string;
+  verified?: boolean;
+  verifiedVia?: VerificationChannel;
+}
+
+// GET/POST /api/v1/team
+export interface V1TeamResult {
+  success: true;
+  data: V1Team;
+}
+
+export interface V1ScoreboardTeam {
+  teamName: string;
+  teamNumber: number;
+  score: number;
+  rank: number;
+}
+
+// GET /api/v1/scoreboard
+export interface V1ScoreboardResult {
+  success: true;
+  data: {
+    teams: V1ScoreboardTeam[];
+    totalTeams: number;
+    lastUpdated: string; // ISO timestamp
+  };
+}
+
+// GET /api/v1/scoreboard/stream - `scoreboard` event: the whole ranked scoreboard
+export type V1ScoreboardSnapshot = V1ScoreboardResult['data'];
+
+// GET /api/v1/scoreboard/stream - `score` event: one team's score changed
+export interface V1ScoreChangeEvent {
+  teamName: string;
+  teamNumber: number;
+  score: number;
+  previousScore: number;
+  change: number;
+  rank: number; // Rank after the change
+}
+
+// GET /api/v1/scoreboard/stream - `heartbeat` event, so clients can tell a quiet stream from a dead one
+export interface V1StreamHeartbeat {
+  time: string; // ISO timestamp
+}
+
+// GET /api/v1/scoreboard/stream - `stream-error` event: updates are interrupted, the last scoreboard still stands
+export interface V1StreamError {
+  error: string;
+  time: string; // ISO timestamp
+}
+
+export interface V1ScoreEvent {
+  id: string;
+  uid: string;
+  amount: number;
+  source: string;
+  reason: string;
+  createdAt: number;
+  occurredAt?: number; // Client timestamp, for events sent in a batch
+}
+
+export interface V1ScoreReconciliation {
+  uid: string;
+  storedScore: number;
+  ledgerScore: number;
+  eventCount: number;
+  inSync: boolean;
+}
+
+// GET /api/v1/score-events
+export interface V1ScoreEventsResult {
+  success: true;
+  data: {
+    events: V1ScoreEvent[];
+    reconciliation: V1ScoreReconciliation;
+  };
+}
+
+// GET /api/v1/otp-delivery
+export interface V1OtpDeliveryResult {
+  success: true;
+  data: {
+    deliveryId: string;
+    status: SmsDeliveryStatus;
+    sentTo: string; // Masked phone number
+    sentAt: string; // ISO timestamp
+    updatedAt: string; // ISO timestamp
+  };
+}
+
+// POST /api/v1/team-token
+export interface V1TeamTokenResult {
+  success: true;
+  data: {
+    uid: string;
+    action: 'rotate' | 'revoke';
+    teamToken?: string; // Only present after a rotation
+  };
+}
+
+/**
+ * v1 view of a team
+ * Unset optional fields are undefined, which JSON responses leave out.
+ */
+export function toV1Team(team: Team): V1Team {
+  return {
+    uid: team.uid,
+    teamNumber: team.teamNumber,
+    teamName: team.teamName,
+    player1: team.player1,
+    player2: team.player2,
+    email: team.email,
+    phoneNumber: team.phoneNumber,
+    emailDisplay: team.emailDisplay,
+    phoneNumberDisplay: team.phoneNumberDisplay,
+    score: team.score,
+    createdAt: team.createdAt,
+    disqualified: team.disqualified,
+    disqualifiedReason: team.disqualifiedReason,
+    verified: team.verified,
+    verifiedVia: team.verifiedVia
+  };
+}
+
+export function toV1ScoreboardTeam(team: PublicTeam): V1ScoreboardTeam {
+  return { teamName: team.teamName, teamNumber: team.teamNumber, score: team.score, rank: team.rank };
+}
+
+export function toV1ScoreEvent(event: ScoreEvent): V1ScoreEvent {
+  return {
+    id: event.id,
+    uid: event.uid,
+    amount: event.amount,
+    source: event.source,
+    reason: event.reason,
+    createdAt: event.createdAt,
+    occurredAt: event.occurredAt
+  };
+}
+
+export function toV1ScoreReconciliation(reconciliation: ScoreReconciliation): V1ScoreReconciliation {
+  return {
+    uid: reconciliation.uid,
+    storedScore: reconciliation.storedScore,
+    ledgerScore: reconciliation.ledgerScore,
+    eventCount: reconciliation.eventCount,
+    inSync: reconciliation.inSync
+  };
+}
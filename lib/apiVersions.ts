@@ -0,0 +1,42 @@
+// API versions
+// The unversioned routes (/api/register, /api/update-score, ...) predate /api/v1 and are kept
+// as aliases so installed game builds keep working. They answer exactly like their v1
+// counterpart, plus headers telling clients to move:
+//   Deprecation: @<unix time>                        (RFC 9745)
+//   Link: </api/v1/register>; rel="successor-version"
+//   Sunset: <HTTP date>                               (RFC 8594, only when LEGACY_API_SUNSET is set)
+
+import type { NextApiHandler } from 'next';
+
+// When the unversioned routes were deprecated (the release that introduced /api/v1)
+export const LEGACY_API_DEPRECATED_AT = Date.UTC(2026, 9, 19);
+
+/**
+ * Date after which the unversioned routes may be removed, from LEGACY_API_SUNSET (e.g. 2027-03-31)
+ * Returns null when unset or unparseable, in which case no Sunset header is sent.
+ */
+export function getLegacyApiSunset(): Date | null {
+  const value = process.env.LEGACY_API_SUNSET;
+  if (!value) {
+    return null;
+  }
+  const sunset = new Date(value);
+  return isNaN(sunset.getTime()) ? null : sunset;
+}
+
+/**
+ * Serve a deprecated route with the handler of its successor, adding deprecation headers
+ */
+export function deprecatedAlias(handler: NextApiHandler, successorPath: string): NextApiHandler {
+  return (req, res) => {
+    res.setHeader('Deprecation', `@${Math.floor(LEGACY_API_DEPRECATED_AT / 1000)}`);
+    res.setHeader('Link', `<${successorPath}>; rel="successor-version"`);
+
+    const sunset = getLegacyApiSunset();
+    if (sunset) {
+      res.setHeader('Sunset', sunset.toUTCString());
+    }
+
+    return handler(req, res);
+  };
+}
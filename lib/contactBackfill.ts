@@ -0,0 +1,94 @@
+// Contact details backfill
+// Teams registered before emails were canonicalized and phones stored in E.164 still hold
+// whatever was typed. This rewrites them in the stored forms, keeps the original text as the
+// display form, and rebuilds the email index so duplicates are judged on the canonical forms.
+
+import { getTeamRepository, type TeamChanges } from './teamRepository';
+import { canonicalizeEmail } from './emailAddress';
+import { normalizePhoneNumber } from './phone';
+import { rebuildTeamIndex, emailKey, type TeamIndexConflict } from './teamIndex';
+
+export interface ContactBackfillReport {
+  eventId: string;
+  dryRun: boolean;
+  teamCount: number;
+  updated: Array<{ uid: string; teamName: string; email?: string; phoneNumber?: string }>; // New stored values
+  unparseablePhones: Array<{ uid: string; teamName: string; phoneNumber: string }>; // Left as they are
+  conflicts: TeamIndexConflict[]; // Teams sharing an email once canonicalized
+}
+
+/**
+ * Canonicalize every team's email and convert its phone number to E.164
+ * Runs as a dry run unless dryRun is false. Phone numbers without a country code only
+ * convert when DEFAULT_PHONE_COUNTRY_CODE is set; the rest are reported and left alone.
+ */
+export async function backfillContactDetails(eventId: string, dryRun: boolean = true): Promise<ContactBackfillReport> {
+  const repository = getTeamRepository();
+  const teams = await repository.listTeams(eventId);
+
+  const report: ContactBackfillReport = {
+    eventId,
+    dryRun,
+    teamCount: teams.length,
+    updated: [],
+    unparseablePhones: [],
+    conflicts: []
+  };
+
+  // Oldest first, matching the order the index rebuild reports conflicts in
+  teams.sort((a, b) => (a.createdAt || 0) - (b.createdAt || 0) || (a.uid < b.uid ? -1 : 1));
+  const emailOwners: Record<string, string[]> = {};
+
+  for (const team of teams) {
+    const changes: TeamChanges = {};
+    const change: ContactBackfillReport['updated'][number] = { uid: team.uid, teamName: team.teamName };
+
+    if (team.email) {
+      const email = canonicalizeEmail(team.email);
+      const key = emailKey(email);
+      emailOwners[key] = (emailOwners[key] || []).concat(team.uid);
+      if (email !== team.email) {
+        changes.email = change.email = email;
+      }
+      if (!team.emailDisplay) {
+        changes.emailDisplay = team.email;
+      }
+    }
+
+    if (team.phoneNumber) {
+      const phoneNumber = normalizePhoneNumber(team.phoneNumber);
+      if (!phoneNumber) {
+        report.unparseablePhones.push({ uid: team.uid, teamName: team.teamName, phoneNumber: team.phoneNumber });
+      } else if (phoneNumber !== team.phoneNumber) {
+        changes.phoneNumber = change.phoneNumber = phoneNumber;
+      }
+      if (!team.phoneNumberDisplay) {
+        changes.phoneNumberDisplay = team.phoneNumber;
+      }
+    }
+
+    if (Object.keys(changes).length === 0) {
+      continue;
+    }
+    if (!dryRun) {
+      await repository.updateTeam(eventId, team.uid, changes);
+    }
+    if (change.email || change.phoneNumber) {
+      report.updated.push(change);
+    }
+  }
+
+  if (dryRun) {
+    // Predict the conflicts the rebuild would report, without writing the index
+    Object.keys(emailOwners).forEach(key => {
+      if (emailOwners[key].length > 1) {
+        report.conflicts.push({ index: 'emails', key, uids: emailOwners[key] });
+      }
+    });
+  } else {
+    const rebuild = await rebuildTeamIndex(eventId);
+    report.conflicts = rebuild.conflicts.filter(conflict => conflict.index === 'emails');
+  }
+
+  return report;
+}
@@ -0,0 +1,115 @@
+// Email delivery
+// Messages go through an EmailTransport: SMTP in production, or the console transport
+// that just logs messages during development. Pick one with EMAIL_TRANSPORT.
+
+import nodemailer from 'nodemailer';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface EmailTransport {
+  send(message: EmailMessage): Promise<void>;
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean; // true for implicit TLS (port 465); STARTTLS is negotiated otherwise
+  user?: string;
+  pass?: string;
+  from: string;
+}
+
+// Sender used when EMAIL_FROM is not set
+const DEFAULT_FROM = 'AR Treasure Hunt <no-reply@localhost>';
+
+/**
+ * Transport that delivers through an SMTP server
+ * Works against a local sink (e.g. MailHog or smtp4dev on port 1025) for testing
+ */
+export function createSmtpTransport(options: SmtpOptions): EmailTransport {
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    auth: options.user ? { user: options.user, pass: options.pass } : undefined
+  });
+
+  return {
+    async send(message) {
+      await transporter.sendMail({
+        from: options.from,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html
+      });
+    }
+  };
+}
+
+/**
+ * Transport that prints messages instead of sending them (development only)
+ */
+export function createConsoleTransport(): EmailTransport {
+  return {
+    async send(message) {
+      console.log(`📧 Email to ${message.to}: ${message.subject}\n${message.text}`);
+    }
+  };
+}
+
+/**
+ * Read SMTP settings from the environment
+ */
+function smtpOptionsFromEnv(): SmtpOptions {
+  const port = Number(process.env.SMTP_PORT) || 587;
+  return {
+    host: process.env.SMTP_HOST || 'localhost',
+    port,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+    user: process.env.SMTP_USER,
+    pass: process.env.SMTP_PASS,
+    from: process.env.EMAIL_FROM || DEFAULT_FROM
+  };
+}
+
+let activeTransport: EmailTransport | null = null;
+
+/**
+ * Get the transport used by the app
+ * EMAIL_TRANSPORT=smtp or console picks one explicitly; otherwise SMTP is used when SMTP_HOST is set
+ */
+export function getEmailTransport(): EmailTransport {
+  if (!activeTransport) {
+    const transport = process.env.EMAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console');
+    activeTransport = transport === 'smtp' ? createSmtpTransport(smtpOptionsFromEnv()) : createConsoleTransport();
+  }
+  return activeTransport;
+}
+
+/**
+ * Swap the transport, e.g. to capture messages in a test
+ * Pass null to go back to the default on next use
+ */
+export function setEmailTransport(transport: EmailTransport | null): void {
+  activeTransport = transport;
+}
+
+/**
+ * Send a message with the active transport
+ * Returns false instead of throwing so callers can decide whether delivery is critical
+ */
+export async function sendEmail(message: EmailMessage): Promise<boolean> {
+  try {
+    await getEmailTransport().send(message);
+    return true;
+  } catch (error) {
+    console.error(`Failed to send email to ${message.to}:`, error);
+    return false;
+  }
+}
@@ -0,0 +1,34 @@
+// Email address handling
+// Addresses are stored in a canonical form so the same inbox is always recognized,
+// whatever case or spelling variant was typed. The address as typed is kept for display.
+
+// Providers that ignore dots in the mailbox name and deliver "name+tag" to "name"
+const DOT_INSENSITIVE_DOMAINS = ['gmail.com'];
+
+// Alternative domains for the same mailboxes
+const DOMAIN_ALIASES: Record<string, string> = {
+  'googlemail.com': 'gmail.com'
+};
+
+/**
+ * Canonical form of an email address
+ * Trimmed and lowercased; for Gmail, dots and "+tag" suffixes in the mailbox are dropped
+ * and googlemail.com becomes gmail.com, as they all reach the same inbox.
+ */
+export function canonicalizeEmail(email: string): string {
+  const trimmed = email.trim().toLowerCase();
+  const at = trimmed.lastIndexOf('@');
+  if (at <= 0) {
+    return trimmed; // Not an address - left for validation to reject
+  }
+
+  let mailbox = trimmed.slice(0, at);
+  let domain = trimmed.slice(at + 1);
+  domain = DOMAIN_ALIASES[domain] || domain;
+
+  if (DOT_INSENSITIVE_DOMAINS.indexOf(domain) !== -1) {
+    mailbox = mailbox.split('+')[0].replace(/\./g, '') || mailbox;
+  }
+
+  return `${mailbox}@${domain}`;
+}
@@ -0,0 +1,87 @@
+// Email templates
+// Templates live in emails/ as a plain-text file (first line "Subject: ...") and an
+// optional HTML file with the same name. {{name}} placeholders are filled from the data
+// passed in; values are HTML-escaped in the HTML version.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { EmailMessage } from './email';
+
+export type EmailTemplateName = 'otp' | 'registration-confirmation' | 'final-results';
+
+export type TemplateData = Record<string, string | number>;
+
+// Directory holding the template files, overridable for custom branding
+const TEMPLATE_DIR = process.env.EMAIL_TEMPLATE_DIR || path.join(process.cwd(), 'emails');
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z0-9_]+)\s*\}\}/g;
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Fill the placeholders in a template
+ * Throws on a placeholder with no value, so a typo never reaches a participant's inbox
+ */
+function fillPlaceholders(template: string, data: TemplateData, templateName: string, escape: boolean): string {
+  return template.replace(PLACEHOLDER_PATTERN, (match, key: string) => {
+    if (!(key in data)) {
+      throw new Error(`Missing value for "${key}" in email template "${templateName}"`);
+    }
+    const value = String(data[key]);
+    return escape ? escapeHtml(value) : value;
+  });
+}
+
+/**
+ * Read a template file, or null if it doesn't exist
+ */
+async function readTemplateFile(fileName: string): Promise<string | null> {
+  try {
+    return await fs.readFile(path.join(TEMPLATE_DIR, fileName), 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Render a template into a message for one recipient
+ */
+export async function renderEmailTemplate(
+  name: EmailTemplateName,
+  to: string,
+  data: TemplateData
+): Promise<EmailMessage> {
+  const [textSource, htmlSource] = await Promise.all([
+    readTemplateFile(`${name}.txt`),
+    readTemplateFile(`${name}.html`)
+  ]);
+
+  if (textSource === null) {
+    throw new Error(`Email template "${name}" not found in ${TEMPLATE_DIR}`);
+  }
+
+  // The first line of the text file is the subject
+  const lineBreak = textSource.indexOf('\n');
+  const subjectLine = lineBreak === -1 ? textSource : textSource.slice(0, lineBreak);
+  if (subjectLine.indexOf('Subject:') !== 0) {
+    throw new Error(`Email template "${name}.txt" must start with a "Subject:" line`);
+  }
+  const body = lineBreak === -1 ? '' : textSource.slice(lineBreak + 1).replace(/^\s*\n/, '');
+
+  return {
+    to,
+    subject: fillPlaceholders(subjectLine.slice('Subject:'.length).trim(), data, name, false),
+    text: fillPlaceholders(body, data, name, false),
+    ...(htmlSource !== null ? { html: fillPlaceholders(htmlSource, data, name, true) } : {})
+  };
+}
@@ -0,0 +1,181 @@
+// API errors
+// Every error response has the same envelope, with a stable `code` clients can branch on
+// instead of matching the message:
+//   { "success": false, "error": "Team not found with the provided UID", "code": "TEAM_NOT_FOUND" }
+// lib/ code throws the ApiError subclasses below; routes turn them into responses with sendApiError.
+// Keep this file free of server-only imports so pages can use the codes too.
+
+import type { NextApiResponse } from 'next';
+import type { FieldError } from './registrationSchema';
+import type { OtpErrorCode } from './otp';
+import type { SignatureErrorCode } from './signature';
+import type { TeamTokenErrorCode } from './teamTokens';
+
+export type ApiErrorCode =
+  // Malformed requests (400) and unsupported methods (405)
+  | 'VALIDATION_FAILED'
+  | 'INVALID_JSON'
+  | 'INVALID_EVENT_ID'
+  | 'INVALID_IDEMPOTENCY_KEY'
+  | 'TEAM_NAME_BLOCKED'
+  | 'METHOD_NOT_ALLOWED'
+  // Authorization (401) and permission (403)
+  | 'UNAUTHORIZED'
+  | SignatureErrorCode
+  | TeamTokenErrorCode
+  | OtpErrorCode
+  | 'TEAM_DISQUALIFIED'
+  // Missing resources (404)
+  | 'EVENT_NOT_FOUND'
+  | 'TEAM_NOT_FOUND'
+  | 'DELIVERY_NOT_FOUND'
+  // Conflicts (409)
+  | 'TEAM_NAME_TAKEN'
+  | 'EMAIL_TAKEN'
+  | 'EVENT_EXISTS'
+  | 'IDEMPOTENCY_IN_PROGRESS'
+  // Idempotency key reused for a different request (422)
+  | 'IDEMPOTENCY_KEY_REUSED'
+  // Rate limits (429)
+  | 'RATE_LIMITED'
+  // Server-side failures (5xx)
+  | 'OTP_DELIVERY_FAILED'
+  | 'TEAM_INDEX_UNAVAILABLE'
+  | 'INTERNAL_ERROR';
+
+export interface ApiErrorResponse {
+  success: false;
+  error: string; // For people - may change between versions
+  code: ApiErrorCode; // For programs - stable
+  fieldErrors?: FieldError[]; // VALIDATION_FAILED and TEAM_NAME_BLOCKED: one entry per invalid field
+  suggestions?: string[]; // TEAM_NAME_TAKEN: free names to offer instead
+}
+
+// Extra envelope fields an error can carry
+export type ApiErrorDetails = Pick<ApiErrorResponse, 'fieldErrors' | 'suggestions'>;
+
+/**
+ * Base class for errors that map to a specific HTTP status and code
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: ApiErrorCode;
+  details: ApiErrorDetails;
+
+  constructor(status: number, code: ApiErrorCode, message: string, details: ApiErrorDetails = {}) {
+    super(message);
+    // Keeps instanceof working when compiled down to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+export class ValidationFailedError extends ApiError {
+  constructor(message: string, fieldErrors?: FieldError[], code: ApiErrorCode = 'VALIDATION_FAILED') {
+    super(400, code, message, fieldErrors ? { fieldErrors } : {});
+  }
+}
+
+export class UnauthorizedError extends ApiError {
+  constructor(message: string = 'Authorization required', code: ApiErrorCode = 'UNAUTHORIZED') {
+    super(401, code, message);
+  }
+}
+
+export class TeamDisqualifiedError extends ApiError {
+  constructor(message: string = 'Team is disqualified and can no longer score') {
+    super(403, 'TEAM_DISQUALIFIED', message);
+  }
+}
+
+export class EventNotFoundError extends ApiError {
+  constructor(eventId: string) {
+    super(404, 'EVENT_NOT_FOUND', `Event "${eventId}" not found`);
+  }
+}
+
+export class TeamNotFoundError extends ApiError {
+  constructor(message: string = 'Team not found with the provided UID') {
+    super(404, 'TEAM_NOT_FOUND', message);
+  }
+}
+
+export class NameTakenError extends ApiError {
+  constructor(teamName: string, suggestions?: string[]) {
+    super(
+      409,
+      'TEAM_NAME_TAKEN',
+      `Team name "${teamName}" is already taken. Please choose a different name.`,
+      suggestions ? { suggestions } : {}
+    );
+  }
+}
+
+export class EmailTakenError extends ApiError {
+  constructor() {
+    super(409, 'EMAIL_TAKEN', 'This email address is already registered. Please use a different email.');
+  }
+}
+
+export class EventExistsError extends ApiError {
+  constructor(eventId: string) {
+    super(409, 'EVENT_EXISTS', `Event "${eventId}" already exists`);
+  }
+}
+
+export class RateLimitedError extends ApiError {
+  readonly retryAfterSeconds: number; // Sent as the Retry-After header
+
+  constructor(message: string, retryAfterSeconds: number, code: ApiErrorCode = 'RATE_LIMITED') {
+    super(429, code, message);
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+export class TeamIndexUnavailableError extends ApiError {
+  constructor(message: string) {
+    super(503, 'TEAM_INDEX_UNAVAILABLE', message);
+  }
+}
+
+/**
+ * Status and envelope for any thrown value
+ * Errors that aren't ApiErrors are unexpected and become 500 INTERNAL_ERROR.
+ */
+export function toErrorResponse(
+  error: unknown,
+  fallbackMessage: string = 'Internal server error'
+): { status: number; body: ApiErrorResponse } {
+  if (error instanceof ApiError) {
+    return {
+      status: error.status,
+      body: { success: false, error: error.message, code: error.code, ...error.details }
+    };
+  }
+  return {
+    status: 500,
+    body: {
+      success: false,
+      error: error instanceof Error ? error.message : fallbackMessage,
+      code: 'INTERNAL_ERROR'
+    }
+  };
+}
+
+/**
+ * Send a thrown value as an error response (see toErrorResponse)
+ */
+export function sendApiError(
+  res: NextApiResponse<ApiErrorResponse>,
+  error: unknown,
+  fallbackMessage?: string
+): void {
+  if (error instanceof RateLimitedError) {
+    res.setHeader('Retry-After', String(error.retryAfterSeconds));
+  }
+  const { status, body } = toErrorResponse(error, fallbackMessage);
+  res.status(status).json(body);
+}
@@ -0,0 +1,26 @@
+// Event IDs
+// The default event and the event ID format, shared by the API and the pages.
+// Keep this file free of server-only imports so the pages can bundle it.
+
+// Event used when a request or page doesn't name one
+// It always exists, so a single-event deployment needs no setup
+export const DEFAULT_EVENT_ID = process.env.NEXT_PUBLIC_DEFAULT_EVENT_ID || 'default';
+
+// Lowercase letters, digits and dashes - safe in URLs and database paths
+const EVENT_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,39}$/;
+
+/**
+ * Check whether a string can be used as an event ID
+ */
+export function isValidEventId(eventId: string): boolean {
+  return EVENT_ID_PATTERN.test(eventId);
+}
+
+/**
+ * Read the event ID from a page's `?event=` query value
+ * Pages fall back to the default event rather than failing on a bad link
+ */
+export function getPageEventId(value: string | string[] | undefined): string {
+  const eventId = Array.isArray(value) ? value[0] : value;
+  return eventId && isValidEventId(eventId) ? eventId : DEFAULT_EVENT_ID;
+}
@@ -0,0 +1,136 @@
+// Event namespacing
+// Every hunt lives under events/{eventId}/ with its own teams, settings, scoreboard,
+// score ledger and team tokens, so several events can share one database
+
+import type { NextApiRequest } from 'next';
+import { getTeamRepository } from './teamRepository';
+import { ValidationFailedError, EventExistsError } from './errors';
+import { DEFAULT_EVENT_ID, isValidEventId } from './eventIds';
+
+// Root node holding one child per event
+export const EVENTS_NODE = 'events';
+
+// Root node listing event IDs and names, so events can be listed without downloading their data
+export const EVENT_LIST_NODE = 'eventList';
+
+// Child nodes inside an event
+export const TEAMS_NODE = 'teams';
+export const SETTINGS_NODE = 'settings';
+
+// Name used in messages for an event that has no settings (e.g. the default event)
+export const DEFAULT_EVENT_NAME = 'the AR Treasure Hunt';
+
+const INVALID_EVENT_ID_MESSAGE = 'Invalid event ID. Use up to 40 lowercase letters, digits and dashes.';
+
+// How teams prove their contact details when registering
+export type VerificationChannel = 'email' | 'sms';
+
+export const VERIFICATION_CHANNELS: VerificationChannel[] = ['email', 'sms'];
+
+// Per-event configuration, stored at events/{eventId}/settings
+export interface EventSettings {
+  name: string;
+  createdAt: number;
+  verificationChannel?: VerificationChannel; // Defaults to email
+}
+
+// Entry in the event list
+export interface EventSummary extends EventSettings {
+  eventId: string;
+}
+
+/**
+ * Build a database path inside an event, e.g. eventPath('spring', 'teams', uid)
+ */
+export function eventPath(eventId: string, ...segments: string[]): string {
+  return [EVENTS_NODE, eventId].concat(segments).join('/');
+}
+
+/**
+ * Read the event ID from a request (`event` query parameter or body field)
+ * Falls back to the default event, and throws when the value is malformed
+ */
+export function getRequestEventId(req: NextApiRequest): string {
+  const fromQuery = Array.isArray(req.query.event) ? req.query.event[0] : req.query.event;
+  const value = fromQuery || (req.body && typeof req.body === 'object' ? req.body.event : undefined);
+
+  if (value === undefined || value === null || value === '') {
+    return DEFAULT_EVENT_ID;
+  }
+
+  if (typeof value !== 'string' || !isValidEventId(value)) {
+    throw new ValidationFailedError(INVALID_EVENT_ID_MESSAGE, undefined, 'INVALID_EVENT_ID');
+  }
+
+  return value;
+}
+
+/**
+ * Get an event's settings, or null if the event was never created
+ */
+export async function getEventSettings(eventId: string): Promise<EventSettings | null> {
+  return getTeamRepository().getEventSettings(eventId);
+}
+
+/**
+ * Get an event's display name for messages
+ */
+export async function getEventName(eventId: string): Promise<string> {
+  const settings = await getEventSettings(eventId);
+  return settings ? settings.name : DEFAULT_EVENT_NAME;
+}
+
+/**
+ * Get how an event verifies registrations (email unless the event chose SMS)
+ */
+export async function getVerificationChannel(eventId: string): Promise<VerificationChannel> {
+  const settings = await getEventSettings(eventId);
+  return settings && settings.verificationChannel === 'sms' ? 'sms' : 'email';
+}
+
+/**
+ * Check whether teams can be registered for an event
+ */
+export async function eventExists(eventId: string): Promise<boolean> {
+  if (eventId === DEFAULT_EVENT_ID) {
+    return true;
+  }
+  return (await getEventSettings(eventId)) !== null;
+}
+
+/**
+ * Create an event (organizer use)
+ */
+export async function createEvent(
+  eventId: string,
+  name: string,
+  verificationChannel: VerificationChannel = 'email'
+): Promise<EventSettings> {
+  if (!isValidEventId(eventId)) {
+    throw new ValidationFailedError(INVALID_EVENT_ID_MESSAGE, undefined, 'INVALID_EVENT_ID');
+  }
+
+  if (await getEventSettings(eventId)) {
+    throw new EventExistsError(eventId);
+  }
+
+  const settings: EventSettings = { name, createdAt: Date.now(), verificationChannel };
+  await getTeamRepository().createEvent(eventId, settings);
+  return settings;
+}
+
+/**
+ * List all created events, newest first
+ * The default event is always included, even if it was never created explicitly
+ */
+export async function listEvents(): Promise<EventSummary[]> {
+  const events = await getTeamRepository().listEvents();
+  const hasDefault = events.some(event => event.eventId === DEFAULT_EVENT_ID);
+
+  if (!hasDefault) {
+    events.push({ eventId: DEFAULT_EVENT_ID, name: 'Default event', createdAt: 0 });
+  }
+
+  events.sort((a, b) => b.createdAt - a.createdAt);
+  return events;
+}
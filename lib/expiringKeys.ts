@@ -0,0 +1,31 @@
+// Expiring key cleanup
+// Idempotency keys, signature nonces and SMS deliveries are written once per request. A claim overwrites an
+// expired record, but keys that never come back would stay forever, so the code writing them
+// calls pruneExpiredKeys to delete expired records in small batches as it goes.
+
+import { getTeamRepository } from './teamRepository';
+
+// At most one cleanup per node and server instance in this window
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
+// Expired records deleted per cleanup
+const PRUNE_BATCH_SIZE = 100;
+
+// When each node was last cleaned up by this instance
+const lastPruned: Record<string, number> = {};
+
+/**
+ * Delete a batch of expired records under a root node, at most once a minute
+ * Runs in the background: the caller's request never waits for it or fails because of it.
+ */
+export function pruneExpiredKeys(node: string): void {
+  const now = Date.now();
+  if (lastPruned[node] && now - lastPruned[node] < PRUNE_INTERVAL_MS) {
+    return;
+  }
+  lastPruned[node] = now;
+
+  getTeamRepository().deleteExpiredKeys(node, now, PRUNE_BATCH_SIZE).catch((error) => {
+    console.error(`Failed to prune expired keys under ${node}:`, error);
+  });
+}
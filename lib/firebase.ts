@@ -3,7 +3,7 @@
 
 import { initializeApp } from 'firebase/app';
 import { getDatabase } from 'firebase/database';
-import { getAuth, signInAnonymously, onAuthStateChanged } from 'firebase/auth';
+import { getAuth, signInWithEmailAndPassword } from 'firebase/auth';
 
 // Firebase configuration object
 // These values come from your Firebase project settings
@@ -27,18 +27,40 @@ export const auth = getAuth(app);
 // This is what we'll use to store and retrieve team data
 export const db = getDatabase(app);
 
-// Auto sign-in anonymously when Firebase initializes
-// This ensures Firestore has proper authentication context
-if (typeof window !== 'undefined') {
-  // Only run on client-side
-  onAuthStateChanged(auth, (user) => {
-    if (!user) {
-      // If no user is signed in, sign in anonymously
-      signInAnonymously(auth).catch((error) => {
-        console.error('Anonymous auth failed:', error);
-      });
-    }
-  });
+// In-flight sign-in, shared by concurrent requests
+let signingIn: Promise<void> | null = null;
+
+/**
+ * Sign the server in before database operations
+ * The database rules (database.rules.json) only let accounts listed under serverAccounts/{uid}
+ * read or write anything but the public scoreboard, so the server signs in as such an account
+ * with FIREBASE_SERVER_EMAIL and FIREBASE_SERVER_PASSWORD.
+ */
+export async function ensureAuth(): Promise<void> {
+  if (auth.currentUser) {
+    return;
+  }
+
+  const email = process.env.FIREBASE_SERVER_EMAIL;
+  const password = process.env.FIREBASE_SERVER_PASSWORD;
+  if (!email || !password) {
+    throw new Error('FIREBASE_SERVER_EMAIL and FIREBASE_SERVER_PASSWORD must be set to use the database');
+  }
+
+  if (!signingIn) {
+    signingIn = signInWithEmailAndPassword(auth, email, password).then(
+      () => {
+        signingIn = null;
+      },
+      (error) => {
+        signingIn = null;
+        console.error('Failed to sign in the server account:', error);
+        throw new Error('Authentication required');
+      }
+    );
+  }
+
+  await signingIn;
 }
 
 // Export the app for use in other parts of the application
@@ -0,0 +1,456 @@
+// Firebase Realtime Database implementation of TeamRepository
+// Data layout: events/{eventId}/{teams,scoreboard,scoreEvents,teamTokens,settings}/... (see lib/events.ts)
+
+import {
+  ref,
+  set,
+  get,
+  update,
+  runTransaction,
+  push,
+  child,
+  onValue,
+  off,
+  increment,
+  query,
+  orderByChild,
+  endAt,
+  limitToFirst
+} from 'firebase/database';
+import { db, ensureAuth } from './firebase';
+import { withRetry } from './retry';
+import {
+  toScoreboardEntry,
+  SCOREBOARD_NODE,
+  SCORE_EVENTS_NODE,
+  TEAM_COUNTER_NODE,
+  type Team,
+  type ScoreEvent,
+  type ScoreChangeDetails,
+  type ScoreboardEntry
+} from './firestore';
+import { TEAM_TOKENS_NODE, type TeamTokenRecord } from './teamTokens';
+import { TEAM_INDEX_NODE } from './teamIndex';
+import { NAME_BLOCKLIST_NODE } from './teamNames';
+import {
+  eventPath,
+  EVENT_LIST_NODE,
+  SETTINGS_NODE,
+  TEAMS_NODE,
+  type EventSettings,
+  type EventSummary
+} from './events';
+import type { TeamRepository, TeamChanges, ExpiringRecord } from './teamRepository';
+
+// Team fields mirrored to the public scoreboard node
+const SCOREBOARD_FIELDS: Array<keyof ScoreboardEntry> = ['teamName', 'teamNumber', 'score', 'disqualified'];
+
+/**
+ * Entries of a scoreboard node value
+ * Skips partial entries (e.g. a score written for a team that no longer exists)
+ */
+function toScoreboardEntries(value: Record<string, ScoreboardEntry> | null): ScoreboardEntry[] {
+  const allEntries = value || {};
+  return Object.keys(allEntries)
+    .filter(uid => allEntries[uid] && allEntries[uid].teamName)
+    .map(uid => allEntries[uid]);
+}
+
+/**
+ * Create a ledger event for a score change
+ * The push key is generated locally, so the same ID is reused if the write is retried
+ */
+function createScoreEvent(eventId: string, uid: string, amount: number, details: ScoreChangeDetails): ScoreEvent {
+  const eventRef = push(child(ref(db), eventPath(eventId, SCORE_EVENTS_NODE, uid)));
+
+  return {
+    id: eventRef.key as string,
+    uid,
+    amount,
+    source: details.source || 'api',
+    reason: details.reason || '',
+    createdAt: Date.now(),
+    // Firebase rejects undefined values, so only client timestamps that were sent are stored
+    ...(details.occurredAt !== undefined ? { occurredAt: details.occurredAt } : {})
+  };
+}
+
+export function createFirebaseTeamRepository(): TeamRepository {
+  return {
+    async getTeam(eventId, uid) {
+      await ensureAuth();
+      const snapshot = await get(ref(db, eventPath(eventId, TEAMS_NODE, uid)));
+      return snapshot.exists() && snapshot.val().teamName ? snapshot.val() as Team : null;
+    },
+
+    async listTeams(eventId) {
+      await ensureAuth();
+      const snapshot = await get(ref(db, eventPath(eventId, TEAMS_NODE)));
+      const teams: Team[] = [];
+
+      if (snapshot.exists()) {
+        const allData = snapshot.val();
+        // Only nodes with a teamName property are treated as teams
+        for (const uid in allData) {
+          if (allData[uid] && allData[uid].teamName) {
+            teams.push(allData[uid] as Team);
+          }
+        }
+      }
+
+      return teams;
+    },
+
+    async createTeam(eventId, team) {
+      await ensureAuth();
+
+      // Claim the UID atomically so a collision can never overwrite another team
+      const result = await runTransaction(ref(db, eventPath(eventId, TEAMS_NODE, team.uid)), (current: Team | null) => {
+        if (current !== null) {
+          return; // Abort - the UID belongs to another team
+        }
+        return team;
+      });
+
+      if (!result.committed) {
+        return false;
+      }
+
+      await set(ref(db, eventPath(eventId, SCOREBOARD_NODE, team.uid)), toScoreboardEntry(team));
+      return true;
+    },
+
+    async updateTeam(eventId, uid, changes: TeamChanges) {
+      await ensureAuth();
+      const updates: Record<string, unknown> = {};
+
+      for (const field in changes) {
+        const value = changes[field as keyof Team];
+        if (value === undefined) {
+          continue;
+        }
+        updates[eventPath(eventId, TEAMS_NODE, uid, field)] = value;
+        if (SCOREBOARD_FIELDS.indexOf(field as keyof ScoreboardEntry) !== -1) {
+          updates[eventPath(eventId, SCOREBOARD_NODE, uid, field)] = value;
+        }
+      }
+
+      if (Object.keys(updates).length > 0) {
+        await update(ref(db), updates);
+      }
+    },
+
+    async deleteTeam(eventId, uid) {
+      await ensureAuth();
+      await update(ref(db), {
+        [eventPath(eventId, TEAMS_NODE, uid)]: null,
+        [eventPath(eventId, SCOREBOARD_NODE, uid)]: null,
+        [eventPath(eventId, TEAM_TOKENS_NODE, uid)]: null
+      });
+    },
+
+    async getTeamCounter(eventId) {
+      await ensureAuth();
+      const snapshot = await get(ref(db, eventPath(eventId, TEAM_COUNTER_NODE)));
+      return snapshot.exists() ? snapshot.val() : null;
+    },
+
+    async advanceTeamCounter(eventId, floor, step) {
+      await ensureAuth();
+      // A transaction, so concurrent registrations each get their own number
+      const result = await runTransaction(ref(db, eventPath(eventId, TEAM_COUNTER_NODE)), (current: number | null) => {
+        return Math.max(current || 0, floor) + step;
+      });
+      return result.snapshot.val();
+    },
+
+    async getIndexedUid(eventId, index, key) {
+      await ensureAuth();
+      const snapshot = await get(ref(db, eventPath(eventId, TEAM_INDEX_NODE, index, key)));
+      return snapshot.exists() ? snapshot.val() : null;
+    },
+
+    async claimIndexKey(eventId, index, key, uid) {
+      await ensureAuth();
+      const result = await runTransaction(ref(db, eventPath(eventId, TEAM_INDEX_NODE, index, key)), (current: string | null) => {
+        if (current !== null) {
+          return; // Abort - already claimed (possibly by this UID)
+        }
+        return uid;
+      });
+      // Committed or aborted, the snapshot holds the owner
+      return result.snapshot.val();
+    },
+
+    async releaseIndexKey(eventId, index, key, uid) {
+      await ensureAuth();
+      await runTransaction(ref(db, eventPath(eventId, TEAM_INDEX_NODE, index, key)), (current: string | null) => {
+        // The first run may see null before the server value is known, so that case writes
+        // (a no-op delete) rather than aborting; a conflict reruns it with the real owner
+        if (current !== null && current !== uid) {
+          return; // Abort - owned by another team
+        }
+        return null;
+      });
+    },
+
+    async getTeamIndexMeta(eventId) {
+      await ensureAuth();
+      const snapshot = await get(ref(db, eventPath(eventId, TEAM_INDEX_NODE, 'meta')));
+      return snapshot.exists() ? snapshot.val() : null;
+    },
+
+    async setTeamIndexMeta(eventId, meta) {
+      await ensureAuth();
+      await set(ref(db, eventPath(eventId, TEAM_INDEX_NODE, 'meta')), meta);
+    },
+
+    async replaceTeamIndex(eventId, entries, meta) {
+      await ensureAuth();
+      await set(ref(db, eventPath(eventId, TEAM_INDEX_NODE)), { ...entries, meta });
+    },
+
+    async getNameBlocklist() {
+      await ensureAuth();
+      const snapshot = await get(ref(db, NAME_BLOCKLIST_NODE));
+      if (!snapshot.exists()) {
+        return null;
+      }
+      // Stored as { words: [...] } so that an empty list still exists
+      const words = snapshot.val().words || [];
+      return Object.keys(words).map(key => words[key]);
+    },
+
+    async setNameBlocklist(words) {
+      await ensureAuth();
+      await set(ref(db, NAME_BLOCKLIST_NODE), { words, updatedAt: Date.now() });
+    },
+
+    /**
+     * The score uses a server-side increment, so concurrent writers never overwrite
+     * each other, and all paths (team, public scoreboard, ledger) go out in one
+     * multi-path update so the ledger never drifts from the score. Retries first
+     * check whether the event already landed, which keeps a retried write from
+     * applying the increment twice.
+     */
+    async applyScoreChange(eventId, uid, amount, details) {
+      await ensureAuth();
+      const event = createScoreEvent(eventId, uid, amount, details);
+      const ledgerPath = eventPath(eventId, SCORE_EVENTS_NODE, uid, event.id);
+
+      await withRetry(async (attempt) => {
+        if (attempt > 1) {
+          const existing = await get(ref(db, ledgerPath));
+          if (existing.exists()) {
+            return; // The previous attempt was committed before the error surfaced
+          }
+        }
+
+        await update(ref(db), {
+          [eventPath(eventId, TEAMS_NODE, uid, 'score')]: increment(amount),
+          [eventPath(eventId, SCOREBOARD_NODE, uid, 'score')]: increment(amount),
+          [ledgerPath]: event
+        });
+      });
+
+      return event;
+    },
+
+    async applyScoreChanges(eventId, uid, changes) {
+      await ensureAuth();
+      const events = changes.map(change => createScoreEvent(eventId, uid, change.amount, change));
+      const total = events.reduce((sum, event) => sum + event.amount, 0);
+
+      const updates: Record<string, unknown> = {
+        [eventPath(eventId, TEAMS_NODE, uid, 'score')]: increment(total),
+        [eventPath(eventId, SCOREBOARD_NODE, uid, 'score')]: increment(total)
+      };
+      events.forEach(event => {
+        updates[eventPath(eventId, SCORE_EVENTS_NODE, uid, event.id)] = event;
+      });
+
+      await withRetry(async (attempt) => {
+        if (attempt > 1 && events.length > 0) {
+          const existing = await get(ref(db, eventPath(eventId, SCORE_EVENTS_NODE, uid, events[0].id)));
+          if (existing.exists()) {
+            return; // The previous attempt was committed before the error surfaced
+          }
+        }
+
+        await update(ref(db), updates);
+      });
+
+      return events;
+    },
+
+    async appendScoreEvent(eventId, uid, amount, details) {
+      await ensureAuth();
+      const event = createScoreEvent(eventId, uid, amount, details);
+      await set(ref(db, eventPath(eventId, SCORE_EVENTS_NODE, uid, event.id)), event);
+      return event;
+    },
+
+    async setScore(eventId, uid, score) {
+      await ensureAuth();
+      await update(ref(db), {
+        [eventPath(eventId, TEAMS_NODE, uid, 'score')]: score,
+        [eventPath(eventId, SCOREBOARD_NODE, uid, 'score')]: score
+      });
+    },
+
+    async getScoreEvents(eventId, uid) {
+      await ensureAuth();
+      const snapshot = await get(ref(db, eventPath(eventId, SCORE_EVENTS_NODE, uid)));
+      const events: ScoreEvent[] = [];
+
+      if (snapshot.exists()) {
+        const allEvents = snapshot.val();
+        for (const ledgerId in allEvents) {
+          events.push(allEvents[ledgerId] as ScoreEvent);
+        }
+      }
+
+      return events;
+    },
+
+    async getScoreboard(eventId) {
+      await ensureAuth();
+      const snapshot = await get(ref(db, eventPath(eventId, SCOREBOARD_NODE)));
+      return toScoreboardEntries(snapshot.exists() ? snapshot.val() : null);
+    },
+
+    async replaceScoreboard(eventId, entries) {
+      await ensureAuth();
+      await set(ref(db, eventPath(eventId, SCOREBOARD_NODE)), entries);
+    },
+
+    subscribeToScoreboard(eventId, callback, onError) {
+      const scoreboardRef = ref(db, eventPath(eventId, SCOREBOARD_NODE));
+
+      console.log(`Setting up Realtime Database listener for ${eventId} scoreboard...`);
+
+      const unsubscribe = onValue(scoreboardRef,
+        (snapshot) => {
+          console.log('Realtime Database snapshot received');
+
+          if (!snapshot.exists()) {
+            console.log('No data found');
+            callback([]);
+            return;
+          }
+
+          callback(toScoreboardEntries(snapshot.val()));
+        },
+        (error) => {
+          // The listener is cancelled after an error; an empty scoreboard would look like real data
+          console.error('Realtime Database listener error:', error);
+          if (onError) {
+            onError(error);
+          }
+        }
+      );
+
+      return () => {
+        console.log('Unsubscribing from Realtime Database listener');
+        off(scoreboardRef, 'value', unsubscribe);
+      };
+    },
+
+    async getTeamToken(eventId, uid) {
+      await ensureAuth();
+      const snapshot = await get(ref(db, eventPath(eventId, TEAM_TOKENS_NODE, uid)));
+      return snapshot.exists() ? snapshot.val() as TeamTokenRecord : null;
+    },
+
+    async setTeamToken(eventId, uid, record) {
+      await ensureAuth();
+      // Writing null removes the token
+      await set(ref(db, eventPath(eventId, TEAM_TOKENS_NODE, uid)), record);
+    },
+
+    async getEventSettings(eventId) {
+      await ensureAuth();
+      const snapshot = await get(ref(db, eventPath(eventId, SETTINGS_NODE)));
+      return snapshot.exists() ? snapshot.val() as EventSettings : null;
+    },
+
+    async createEvent(eventId, settings) {
+      await ensureAuth();
+      await update(ref(db), {
+        [eventPath(eventId, SETTINGS_NODE)]: settings,
+        [`${EVENT_LIST_NODE}/${eventId}`]: settings
+      });
+    },
+
+    async listEvents() {
+      await ensureAuth();
+      const snapshot = await get(ref(db, EVENT_LIST_NODE));
+      const events: EventSummary[] = [];
+
+      if (snapshot.exists()) {
+        const allEvents = snapshot.val();
+        for (const eventId in allEvents) {
+          events.push({ eventId, ...allEvents[eventId] });
+        }
+      }
+
+      return events;
+    },
+
+    async claimExpiringKey(node, key, record) {
+      await ensureAuth();
+      const now = Date.now();
+
+      const result = await runTransaction(ref(db, `${node}/${key}`), (current: ExpiringRecord | null) => {
+        if (current && current.expiresAt > now) {
+          return; // Abort - the key is already in use
+        }
+        return record;
+      });
+
+      if (result.committed) {
+        return { claimed: true };
+      }
+
+      // An aborted transaction reports the value it saw
+      return { claimed: false, existing: result.snapshot.val() };
+    },
+
+    async getExpiringKey<T extends ExpiringRecord>(node: string, key: string) {
+      await ensureAuth();
+      const snapshot = await get(ref(db, `${node}/${key}`));
+      const current = snapshot.exists() ? snapshot.val() as T : null;
+      return current && current.expiresAt > Date.now() ? current : null;
+    },
+
+    async setExpiringKey(node, key, record) {
+      await ensureAuth();
+      // Writing null removes the key
+      await set(ref(db, `${node}/${key}`), record);
+    },
+
+    async deleteExpiredKeys(node, now, limit) {
+      await ensureAuth();
+      const expired = await get(query(ref(db, node), orderByChild('expiresAt'), endAt(now), limitToFirst(limit)));
+
+      const keys: string[] = [];
+      expired.forEach((entry) => {
+        if (entry.key) {
+          keys.push(entry.key);
+        }
+      });
+
+      // Delete in transactions, so a key claimed again since the read is left alone
+      const results = await Promise.all(keys.map(key =>
+        runTransaction(ref(db, `${node}/${key}`), (current: ExpiringRecord | null) => {
+          if (current && current.expiresAt > now) {
+            return; // Abort - claimed again in the meantime
+          }
+          return null;
+        })
+      ));
+
+      return results.filter(result => result.committed).length;
+    }
+  };
+}
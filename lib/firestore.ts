@@ -1,225 +1,373 @@
-// Firebase Realtime Database operations
-// This file contains all the functions to interact with our Firebase Realtime Database
+// Team operations
+// This file contains all the functions to register teams, score them and read the scoreboard
+// Storage goes through the active TeamRepository (see lib/teamRepository.ts), and
+// all team data is namespaced per event (see lib/events.ts)
 
+import { randomInt } from 'crypto';
+import { getTeamRepository } from './teamRepository';
+import { issueTeamToken } from './teamTokens';
+import { eventExists, type VerificationChannel } from './events';
+import { cleanTeamName, isTeamNameBlocked } from './teamNames';
+import { canonicalizeEmail } from './emailAddress';
+import { normalizePhoneNumber } from './phone';
 import {
-  ref,
-  set,
-  get,
-  update,
-  push,
-  child,
-  query,
-  orderByChild,
-  equalTo,
-  onValue,
-  off
-} from 'firebase/database';
-import { db, auth } from './firebase';
-import { signInAnonymously } from 'firebase/auth';
+  EventNotFoundError,
+  TeamNotFoundError,
+  TeamDisqualifiedError,
+  NameTakenError,
+  EmailTakenError,
+  ValidationFailedError,
+  TeamIndexUnavailableError
+} from './errors';
+import {
+  findIndexedUid,
+  claimTeamIndex,
+  releaseTeamIndex,
+  claimTeamName,
+  releaseTeamName,
+  teamNameKey
+} from './teamIndex';
 
 // Define the Team interface to ensure type safety
 export interface Team {
-  uid: string; // Unity identifier (like qK234) - now the main node key
+  uid: string; // Unity identifier (like qK234) - the team's key inside its event
   teamNumber: number;
   teamName: string; // User-friendly team name
   player1: string;
   player2: string;
-  email: string;
-  phoneNumber: string;
+  email: string; // Canonical form (see lib/emailAddress.ts)
+  phoneNumber: string; // E.164, e.g. +919876543210
+  emailDisplay?: string; // Email as the team typed it
+  phoneNumberDisplay?: string; // Phone number as the team typed it
+  score: number;
+  createdAt: number; // Unix timestamp
+  disqualified?: boolean; // Set by organizers - disqualified teams can't score and are hidden from the scoreboard
+  disqualifiedReason?: string;
+  verified?: boolean; // True once the contact details were confirmed with a one-time code
+  verifiedVia?: VerificationChannel; // Which contact detail the code was sent to
+}
+
+// Fields organizers may edit from the admin console
+export interface TeamDetailsUpdate {
+  teamName?: string;
+  player1?: string;
+  player2?: string;
+}
+
+// A freshly registered team together with its secret token
+// The token is shown once; only its hash is stored (see lib/teamTokens.ts)
+export interface RegisteredTeam extends Team {
+  teamToken: string;
+}
+
+// Public view of a team - safe to show on the scoreboard and return from public endpoints
+// Contact details (email, phone) and player names are deliberately left out
+export interface PublicTeam {
+  teamName: string;
+  teamNumber: number;
   score: number;
+  rank: number; // 1-based, tied scores share a rank
+}
+
+// Event child node mirroring the public fields of every team, keyed by UID
+// Browsers subscribe to this node only, so contact details never reach them
+export const SCOREBOARD_NODE = 'scoreboard';
+
+// Shape of a single entry under SCOREBOARD_NODE
+export type ScoreboardEntry = Pick<Team, 'teamName' | 'teamNumber' | 'score' | 'disqualified'>;
+
+// Event child node holding the score ledger, keyed by team UID then ledger event ID
+export const SCORE_EVENTS_NODE = 'scoreEvents';
+
+// Event child node holding the highest team number handed out so far
+export const TEAM_COUNTER_NODE = 'teamCounter';
+
+/**
+ * A single immutable entry in a team's score ledger
+ * Every score change is recorded here so disputes can be traced back
+ */
+export interface ScoreEvent {
+  id: string; // Push key, also orders events chronologically
+  uid: string; // Team UID the points were applied to
+  amount: number; // Points added (negative for deductions)
+  source: string; // Who applied the change, e.g. 'unity' or 'admin'
+  reason: string; // Free-text explanation supplied by the caller
   createdAt: number; // Unix timestamp
+  occurredAt?: number; // When it happened on the client, for changes queued offline (Unix timestamp)
+}
+
+// Ledger sources only the server writes; game requests may not claim them
+export const RESERVED_SCORE_SOURCES = ['admin', 'reconcile'];
+
+// Who is applying a score change, decided by the route rather than the request
+export interface ScoreUpdateOptions {
+  asOrganizer?: boolean; // Set only by admin routes: organizers may adjust disqualified teams
+}
+
+// Optional details attached to a score change
+export interface ScoreChangeDetails {
+  source?: string;
+  reason?: string;
+  occurredAt?: number;
+}
+
+// One change in a batch applied with updateScoreBatch
+export interface ScoreChange extends ScoreChangeDetails {
+  amount: number;
+}
+
+// Result of comparing a team's stored score against its ledger
+export interface ScoreReconciliation {
+  uid: string;
+  storedScore: number;
+  ledgerScore: number;
+  eventCount: number;
+  inSync: boolean;
+}
+
+// UID format, overridable with UID_LENGTH and UID_ALPHABET
+// The default alphabet leaves out characters players mix up when typing a UID into Unity (0/O/o, 1/l/I)
+const DEFAULT_UID_LENGTH = 5;
+const DEFAULT_UID_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnpqrstuvwxyz23456789';
+
+// Fresh UIDs tried before registration gives up - only reached when the UID space is nearly full
+const MAX_UID_ATTEMPTS = 10;
+
+/**
+ * Read the UID length and alphabet from the environment
+ * Throws on values that would make weak UIDs or invalid database keys
+ */
+export function getUidFormat(): { length: number; alphabet: string } {
+  const length = process.env.UID_LENGTH ? Number(process.env.UID_LENGTH) : DEFAULT_UID_LENGTH;
+  const alphabet = process.env.UID_ALPHABET || DEFAULT_UID_ALPHABET;
+
+  if (!(length >= 4 && length <= 32 && Math.floor(length) === length)) {
+    throw new Error('UID_LENGTH must be a whole number between 4 and 32');
+  }
+  if (!/^[A-Za-z0-9_-]+$/.test(alphabet)) {
+    throw new Error('UID_ALPHABET may only contain letters, digits, "-" and "_"');
+  }
+  for (let i = 0; i < alphabet.length; i++) {
+    if (alphabet.indexOf(alphabet.charAt(i)) !== i) {
+      throw new Error(`UID_ALPHABET contains "${alphabet.charAt(i)}" more than once`);
+    }
+  }
+  if (alphabet.length < 10) {
+    throw new Error('UID_ALPHABET needs at least 10 characters');
+  }
+
+  return { length, alphabet };
 }
 
 /**
- * Generate a random alphanumeric UID (like qK234)
+ * Generate a random UID (like qK234) with a cryptographically secure RNG
  * This will be used as Unity identifier and main node key for each team
  */
 export function generateUID(): string {
-  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  const { length, alphabet } = getUidFormat();
   let result = '';
-  for (let i = 0; i < 5; i++) {
-    result += chars.charAt(Math.floor(Math.random() * chars.length));
+  for (let i = 0; i < length; i++) {
+    result += alphabet.charAt(randomInt(alphabet.length));
   }
   return result;
 }
 
 /**
- * Ensure user is authenticated before database operations
+ * Store a new team under a fresh UID, retrying on collisions
+ * The team's name and email are claimed in the index first, so a concurrent registration
+ * with the same name or email fails here instead of creating a duplicate.
+ * `createUid` is injectable so the collision path can be exercised with a fixed sequence
  */
-async function ensureAuth(): Promise<void> {
-  if (!auth.currentUser) {
-    try {
-      await signInAnonymously(auth);
-    } catch (error) {
-      console.error('Failed to authenticate anonymously:', error);
-      throw new Error('Authentication required');
+export async function createTeamWithUniqueUid(
+  eventId: string,
+  team: Omit<Team, 'uid'>,
+  createUid: () => string = generateUID
+): Promise<Team> {
+  const repository = getTeamRepository();
+
+  for (let attempt = 0; attempt < MAX_UID_ATTEMPTS; attempt++) {
+    const candidate: Team = { ...team, uid: createUid() };
+
+    // A deleted team keeps its score ledger, so its UID is never handed out again
+    if ((await repository.getScoreEvents(eventId, candidate.uid)).length > 0) {
+      continue;
+    }
+
+    await claimTeamIndex(eventId, candidate);
+    if (await repository.createTeam(eventId, candidate)) {
+      return candidate;
     }
+    await releaseTeamIndex(eventId, candidate);
   }
+
+  throw new Error('Could not allocate a unique team UID. Please try again.');
 }
 
 /**
- * Check if a team name is already taken
+ * Check if a team name is already taken within an event (ignoring case and spacing)
  */
-export async function isTeamNameTaken(teamName: string): Promise<boolean> {
+export async function isTeamNameTaken(eventId: string, teamName: string): Promise<boolean> {
   try {
-    await ensureAuth();
-    const rootRef = ref(db);
-    const snapshot = await get(rootRef);
-    
-    if (!snapshot.exists()) {
-      return false;
-    }
-    
-    const allData = snapshot.val();
-    // Check if any UID node has this team name
-    for (const uid in allData) {
-      if (allData[uid] && allData[uid].teamName === teamName) {
-        return true;
-      }
-    }
-    return false;
+    return (await findIndexedUid(eventId, 'names', teamName)) !== null;
   } catch (error) {
+    if (error instanceof TeamIndexUnavailableError) {
+      throw error;
+    }
     console.error('Error checking team name:', error);
     return true; // Return true to be safe and prevent duplicates
   }
 }
 
 /**
- * Check if email is already registered
+ * Check if email is already registered within an event (compared in canonical form)
  */
-export async function isEmailTaken(email: string): Promise<boolean> {
+export async function isEmailTaken(eventId: string, email: string): Promise<boolean> {
   try {
-    await ensureAuth();
-    const rootRef = ref(db);
-    const snapshot = await get(rootRef);
-    
-    if (!snapshot.exists()) {
-      return false;
-    }
-    
-    const allData = snapshot.val();
-    // Check if any UID node has this email
-    for (const uid in allData) {
-      if (allData[uid] && allData[uid].email === email) {
-        return true;
-      }
-    }
-    return false;
+    return (await findIndexedUid(eventId, 'emails', email)) !== null;
   } catch (error) {
+    if (error instanceof TeamIndexUnavailableError) {
+      throw error;
+    }
     console.error('Error checking email:', error);
     return true; // Return true to be safe and prevent duplicates
   }
 }
 
 /**
- * Get the next team number by counting existing teams
- * Teams are numbered sequentially starting from 1
+ * Highest team number in use in an event, 0 if there are no teams
  */
-export async function getNextTeamNumber(): Promise<number> {
-  try {
-    await ensureAuth();
-    const rootRef = ref(db);
-    const snapshot = await get(rootRef);
-    
-    if (!snapshot.exists()) {
-      return 1;
-    }
-    
-    const allData = snapshot.val();
-    // Count only valid team nodes (those with teamName property)
-    let teamCount = 0;
-    for (const uid in allData) {
-      if (allData[uid] && allData[uid].teamName) {
-        teamCount++;
-      }
-    }
-    return teamCount + 1;
-  } catch (error) {
-    console.error('Error getting team count:', error);
-    return 1; // Default to 1 if there's an error
-  }
+export async function getHighestTeamNumber(eventId: string): Promise<number> {
+  const teams = await getTeamRepository().listTeams(eventId);
+  return teams.reduce((highest, team) => Math.max(highest, Number(team.teamNumber) || 0), 0);
 }
 
 /**
- * Register a new team in the database
- * Returns the team data with assigned team name and number
- * Data structure: /{uid}/ - UID is the main node
+ * Allocate the next team number from the event's counter
+ * Teams are numbered sequentially starting from 1. Numbers are never handed out twice,
+ * even to simultaneous registrations or after a team is deleted.
+ */
+export async function getNextTeamNumber(eventId: string): Promise<number> {
+  const repository = getTeamRepository();
+
+  // Events registered before the counter existed continue from their highest number
+  const floor = (await repository.getTeamCounter(eventId)) === null ? await getHighestTeamNumber(eventId) : 0;
+
+  return repository.advanceTeamCounter(eventId, floor, 1);
+}
+
+/**
+ * Register a new team in an event
+ * Returns the team data with assigned team name and number, plus the team's secret token
+ * Pass `verifiedVia` only once the email or phone was confirmed with a code (see /api/v1/register)
+ * Data structure: /events/{eventId}/teams/{uid}/
  */
 export async function registerTeam(
+  eventId: string,
   teamName: string,
   player1: string,
   player2: string,
   email: string,
-  phoneNumber: string
-): Promise<Team> {
+  phoneNumber: string,
+  verifiedVia: VerificationChannel | null = null
+): Promise<RegisteredTeam> {
   try {
-    await ensureAuth();
+    if (!(await eventExists(eventId))) {
+      throw new EventNotFoundError(eventId);
+    }
+
+    teamName = cleanTeamName(teamName);
+    if (await isTeamNameBlocked(teamName)) {
+      const message = 'This team name is not allowed. Please choose a different name.';
+      throw new ValidationFailedError(message, [{ field: 'teamName', code: 'NOT_ALLOWED', message }], 'TEAM_NAME_BLOCKED');
+    }
+
+    // Contact details are stored canonical, alongside the form that was typed
+    const canonicalEmail = canonicalizeEmail(email);
+    const e164Phone = normalizePhoneNumber(phoneNumber);
+    if (!e164Phone) {
+      const message = 'Invalid phone number. Include the country code, e.g. +14155550123.';
+      throw new ValidationFailedError(message, [{ field: 'phoneNumber', code: 'INVALID_FORMAT', message }]);
+    }
+
     // Check for duplicates
     const [isNameTaken, isEmailAlreadyUsed] = await Promise.all([
-      isTeamNameTaken(teamName),
-      isEmailTaken(email)
+      isTeamNameTaken(eventId, teamName),
+      isEmailTaken(eventId, canonicalEmail)
     ]);
 
     if (isNameTaken) {
-      throw new Error(`Team name "${teamName}" is already taken. Please choose a different name.`);
+      throw new NameTakenError(teamName);
     }
 
     if (isEmailAlreadyUsed) {
-      throw new Error('This email address is already registered. Please use a different email.');
+      throw new EmailTakenError();
     }
 
-    // Generate unique UID and get next team number
-    const uid = generateUID();
-    const teamNumber = await getNextTeamNumber();
-    
-    // Create team object
-    const teamData: Team = {
-      uid,
+    const teamNumber = await getNextTeamNumber(eventId);
+
+    // Store the team and its public scoreboard entry under a UID no other team has
+    const teamData = await createTeamWithUniqueUid(eventId, {
       teamNumber,
       teamName,
       player1,
       player2,
-      email,
-      phoneNumber,
+      email: canonicalEmail,
+      phoneNumber: e164Phone,
+      emailDisplay: email.trim(),
+      phoneNumberDisplay: phoneNumber.trim(),
       score: 0,
-      createdAt: Date.now()
-    };
+      createdAt: Date.now(),
+      verified: verifiedVia !== null,
+      // Firebase rejects undefined values, so the channel is only present when set
+      ...(verifiedVia ? { verifiedVia } : {})
+    });
+
+    // Mint the secret token the Unity client must present for this team
+    const teamToken = await issueTeamToken(eventId, teamData.uid);
 
-    // Store in Realtime Database with UID as the main node (no parent 'teams' node)
-    const teamRef = ref(db, uid);
-    await set(teamRef, teamData);
-    
-    return teamData;
+    return { ...teamData, teamToken };
   } catch (error) {
     console.error('Error registering team:', error);
     if (error instanceof Error) {
-      throw error; // Re-throw custom error messages
+      throw error; // Re-throw typed errors and custom messages
     }
     throw new Error('Failed to register team. Please try again.');
   }
 }
 
+/**
+ * Check whether a ledger source is reserved for the server (see RESERVED_SCORE_SOURCES)
+ */
+export function isReservedScoreSource(source: string): boolean {
+  return RESERVED_SCORE_SOURCES.indexOf(source.trim().toLowerCase()) !== -1;
+}
+
 /**
  * Update a team's score using their UID (for Unity integration)
- * Used by the Unity game to update scores - direct access since UID is the main node
+ * Used by the Unity game to update scores - direct access since UID is the team's key
+ * Every increment is also recorded in the score ledger
  */
-export async function updateScore(uid: string, scoreIncrement: number): Promise<boolean> {
+export async function updateScore(
+  eventId: string,
+  uid: string,
+  scoreIncrement: number,
+  details: ScoreChangeDetails = {},
+  options: ScoreUpdateOptions = {}
+): Promise<boolean> {
   try {
-    await ensureAuth();
-    const teamRef = ref(db, uid);
-    const snapshot = await get(teamRef);
-    
-    if (!snapshot.exists()) {
-      throw new Error('Team not found with the provided UID');
+    const team = await getTeam(eventId, uid);
+
+    if (!team) {
+      throw new TeamNotFoundError();
     }
 
-    const currentTeam = snapshot.val();
-    const newScore = (currentTeam.score || 0) + scoreIncrement;
+    // Only organizers can still adjust a disqualified team's score
+    if (team.disqualified && !options.asOrganizer) {
+      throw new TeamDisqualifiedError();
+    }
 
-    // Update the score
-    await update(teamRef, {
-      score: newScore
-    });
+    // Increment the score and append the ledger event together
+    await getTeamRepository().applyScoreChange(eventId, uid, scoreIncrement, details);
 
     return true;
   } catch (error) {
@@ -229,44 +377,57 @@ export async function updateScore(uid: string, scoreIncrement: number): Promise<
 }
 
 /**
- * Alternative: Update score using team name (requires searching through all teams)
- * This can be used if you have the team name instead of UID
+ * Apply several score changes to one team at once, in order (for queued offline play)
+ * The score moves by their total and every change gets its own ledger event, all in one write,
+ * so either the whole batch lands or none of it does.
  */
-export async function updateScoreByTeamName(teamName: string, scoreIncrement: number): Promise<boolean> {
+export async function updateScoreBatch(eventId: string, uid: string, changes: ScoreChange[]): Promise<ScoreEvent[]> {
   try {
-    await ensureAuth();
-    const rootRef = ref(db);
-    const snapshot = await get(rootRef);
-    
-    if (!snapshot.exists()) {
-      throw new Error('No teams found in database');
-    }
+    const team = await getTeam(eventId, uid);
 
-    const allData = snapshot.val();
-    let targetUID = null;
-    
-    // Find the team with matching team name
-    for (const uid in allData) {
-      if (allData[uid] && allData[uid].teamName === teamName) {
-        targetUID = uid;
-        break;
-      }
+    if (!team) {
+      throw new TeamNotFoundError();
     }
-    
-    if (!targetUID) {
-      throw new Error('Team not found with the provided team name');
+
+    // Batches come from the game, which can't score for a disqualified team
+    if (team.disqualified) {
+      throw new TeamDisqualifiedError();
     }
 
-    const currentScore = allData[targetUID].score || 0;
-    const newScore = currentScore + scoreIncrement;
+    return await getTeamRepository().applyScoreChanges(eventId, uid, changes);
+  } catch (error) {
+    console.error('Error updating score:', error);
+    throw error;
+  }
+}
 
-    // Update the score
-    const teamRef = ref(db, targetUID);
-    await update(teamRef, {
-      score: newScore
-    });
+/**
+ * Find a team in an event by its team name (ignoring case and spacing)
+ */
+export async function findTeamByName(eventId: string, teamName: string): Promise<Team | null> {
+  const uid = await findIndexedUid(eventId, 'names', teamName);
+  return uid ? getTeam(eventId, uid) : null;
+}
 
-    return true;
+/**
+ * Alternative: Update score using team name (looked up in the name index)
+ * This can be used if you have the team name instead of UID
+ */
+export async function updateScoreByTeamName(
+  eventId: string,
+  teamName: string,
+  scoreIncrement: number,
+  details: ScoreChangeDetails = {},
+  options: ScoreUpdateOptions = {}
+): Promise<boolean> {
+  try {
+    const team = await findTeamByName(eventId, teamName);
+
+    if (!team) {
+      throw new TeamNotFoundError('Team not found with the provided team name');
+    }
+
+    return await updateScore(eventId, team.uid, scoreIncrement, details, options);
   } catch (error) {
     console.error('Error updating score:', error);
     throw error;
@@ -274,28 +435,145 @@ export async function updateScoreByTeamName(teamName: string, scoreIncrement: nu
 }
 
 /**
- * Get all teams for the scoreboard, ordered by score (highest first)
+ * Get the score ledger for a team, oldest event first
+ */
+export async function getScoreEvents(eventId: string, uid: string): Promise<ScoreEvent[]> {
+  const events = await getTeamRepository().getScoreEvents(eventId, uid);
+
+  // Push keys sort chronologically, timestamps break any remaining ties
+  events.sort((a, b) => a.createdAt - b.createdAt || (a.id < b.id ? -1 : 1));
+  return events;
+}
+
+/**
+ * Compare a team's stored score against the sum of its ledger
+ * When `repair` is set, the stored score is overwritten with the ledger total.
+ * Teams registered before the ledger existed get an opening balance event
+ * so their current score is preserved rather than reset to zero.
+ */
+export async function reconcileScore(eventId: string, uid: string, repair: boolean = false): Promise<ScoreReconciliation> {
+  const team = await getTeam(eventId, uid);
+
+  if (!team) {
+    throw new TeamNotFoundError();
+  }
+
+  const storedScore = team.score || 0;
+  const events = await getScoreEvents(eventId, uid);
+  const ledgerScore = events.reduce((total, event) => total + event.amount, 0);
+
+  const result: ScoreReconciliation = {
+    uid,
+    storedScore,
+    ledgerScore,
+    eventCount: events.length,
+    inSync: storedScore === ledgerScore
+  };
+
+  if (!repair || result.inSync) {
+    return result;
+  }
+
+  if (events.length === 0) {
+    // Legacy team: record the existing score as the first ledger entry
+    await getTeamRepository().appendScoreEvent(eventId, uid, storedScore, {
+      source: 'reconcile',
+      reason: 'Opening balance for team registered before the score ledger'
+    });
+    return { ...result, ledgerScore: storedScore, eventCount: 1, inSync: true };
+  }
+
+  await getTeamRepository().setScore(eventId, uid, ledgerScore);
+  return { ...result, storedScore: ledgerScore, inSync: true };
+}
+
+/**
+ * Get a single team by UID, or null if it doesn't exist in the event
+ */
+export async function getTeam(eventId: string, uid: string): Promise<Team | null> {
+  return getTeamRepository().getTeam(eventId, uid);
+}
+
+/**
+ * Edit a team's name or player names (organizer use)
+ * Renames are checked against other teams and mirrored to the public scoreboard
+ */
+export async function updateTeamDetails(eventId: string, uid: string, changes: TeamDetailsUpdate): Promise<Team> {
+  const team = await getTeam(eventId, uid);
+  if (!team) {
+    throw new TeamNotFoundError();
+  }
+
+  // Organizers aren't held to the blocklist, but names are stored tidied like at registration
+  if (changes.teamName !== undefined) {
+    changes = { ...changes, teamName: cleanTeamName(changes.teamName) };
+  }
+
+  // Claim the new name before writing it, and free the old one only once the team uses the new one
+  const renamed = changes.teamName !== undefined && teamNameKey(changes.teamName) !== teamNameKey(team.teamName);
+  if (renamed) {
+    await claimTeamName(eventId, uid, changes.teamName as string);
+  }
+
+  await getTeamRepository().updateTeam(eventId, uid, changes);
+
+  if (renamed) {
+    await releaseTeamName(eventId, uid, team.teamName);
+  }
+
+  return { ...team, ...changes };
+}
+
+/**
+ * Disqualify a team or reinstate it (organizer use)
+ * Disqualified teams keep their data and ledger but drop off the public scoreboard
  */
-export async function getAllTeams(): Promise<Team[]> {
+export async function setTeamDisqualified(
+  eventId: string,
+  uid: string,
+  disqualified: boolean,
+  reason: string = ''
+): Promise<Team> {
+  const team = await getTeam(eventId, uid);
+  if (!team) {
+    throw new TeamNotFoundError();
+  }
+
+  // Null removes the fields again on reinstatement
+  await getTeamRepository().updateTeam(eventId, uid, {
+    disqualified: disqualified ? true : null,
+    disqualifiedReason: disqualified ? reason : null
+  });
+
+  const result: Team = { ...team, disqualified, disqualifiedReason: reason };
+  if (!disqualified) {
+    delete result.disqualified;
+    delete result.disqualifiedReason;
+  }
+  return result;
+}
+
+/**
+ * Permanently delete a team (organizer use)
+ * Removes the team, its scoreboard entry and its token. The score ledger is kept for audit.
+ */
+export async function deleteTeam(eventId: string, uid: string): Promise<void> {
+  const team = await getTeam(eventId, uid);
+  if (!team) {
+    throw new TeamNotFoundError();
+  }
+
+  await getTeamRepository().deleteTeam(eventId, uid);
+  await releaseTeamIndex(eventId, team);
+}
+
+/**
+ * Get all teams of an event, ordered by score (highest first)
+ */
+export async function getAllTeams(eventId: string): Promise<Team[]> {
   try {
-    await ensureAuth();
-    const rootRef = ref(db);
-    const snapshot = await get(rootRef);
-    
-    if (!snapshot.exists()) {
-      return [];
-    }
+    const teamsArray = await getTeamRepository().listTeams(eventId);
 
-    const allData = snapshot.val();
-    const teamsArray: Team[] = [];
-    
-    // Filter only valid team nodes (those with teamName property)
-    for (const uid in allData) {
-      if (allData[uid] && allData[uid].teamName) {
-        teamsArray.push(allData[uid] as Team);
-      }
-    }
-    
     // Sort by score (highest first), then by team number (ascending)
     teamsArray.sort((a, b) => {
       if (b.score !== a.score) {
@@ -303,7 +581,7 @@ export async function getAllTeams(): Promise<Team[]> {
       }
       return a.teamNumber - b.teamNumber; // Lower team number first if scores are equal
     });
-    
+
     return teamsArray;
   } catch (error) {
     console.error('Error getting teams:', error);
@@ -312,62 +590,100 @@ export async function getAllTeams(): Promise<Team[]> {
 }
 
 /**
- * Set up real-time listener for scoreboard updates
- * This function will call the callback whenever team data changes
+ * Pick the fields mirrored to the public scoreboard node
  */
-export function subscribeToScoreboard(callback: (teams: Team[]) => void): () => void {
-  try {
-    const rootRef = ref(db);
-    
-    console.log('Setting up Realtime Database listener for root...');
-    
-    const unsubscribe = onValue(rootRef, 
-      (snapshot) => {
-        console.log('Realtime Database snapshot received');
-        
-        if (!snapshot.exists()) {
-          console.log('No data found');
-          callback([]);
-          return;
-        }
-
-        const allData = snapshot.val();
-        const teamsArray: Team[] = [];
-        
-        // Filter only valid team nodes (those with teamName property)
-        for (const uid in allData) {
-          if (allData[uid] && allData[uid].teamName) {
-            teamsArray.push(allData[uid] as Team);
-          }
-        }
-        
-        console.log('Teams data:', teamsArray);
-        
-        // Sort by score (highest first), then by team number (ascending)
-        teamsArray.sort((a, b) => {
-          if (b.score !== a.score) {
-            return b.score - a.score; // Higher score first
-          }
-          return a.teamNumber - b.teamNumber; // Lower team number first if scores are equal
-        });
-        
-        callback(teamsArray);
-      },
-      (error) => {
-        console.error('Realtime Database listener error:', error);
-        // Still call callback with empty array to update UI state
-        callback([]);
-      }
-    );
+export function toScoreboardEntry(team: ScoreboardEntry): ScoreboardEntry {
+  return {
+    teamName: team.teamName,
+    teamNumber: team.teamNumber,
+    score: team.score || 0,
+    // Firebase rejects undefined values, so the flag is only present when set
+    ...(team.disqualified ? { disqualified: true } : {})
+  };
+}
 
-    // Return unsubscribe function
-    return () => {
-      console.log('Unsubscribing from Realtime Database listener');
-      off(rootRef, 'value', unsubscribe);
+/**
+ * Sort teams for the scoreboard and attach their rank
+ * Highest score first, lower team number first on ties; tied scores share a rank.
+ * Disqualified teams are left out.
+ */
+export function rankTeams<T extends ScoreboardEntry>(teams: T[]): Array<T & { rank: number }> {
+  const sorted = teams.filter(team => !team.disqualified).sort((a, b) => {
+    const scoreA = a.score || 0;
+    const scoreB = b.score || 0;
+    if (scoreB !== scoreA) {
+      return scoreB - scoreA; // Higher score first
+    }
+    return a.teamNumber - b.teamNumber; // Lower team number first if scores are equal
+  });
+
+  const ranked: Array<T & { rank: number }> = [];
+  sorted.forEach((team, index) => {
+    const previous = ranked[index - 1];
+    // Competition ranking: tied scores share the rank of the first team with that score
+    const rank = previous && (previous.score || 0) === (team.score || 0) ? previous.rank : index + 1;
+    ranked.push({ ...team, rank });
+  });
+
+  return ranked;
+}
+
+/**
+ * Rank teams for the scoreboard and project them to their public fields
+ */
+export function toPublicTeams(teams: ScoreboardEntry[]): PublicTeam[] {
+  return rankTeams(teams).map(team => {
+    const entry = toScoreboardEntry(team);
+    return {
+      teamName: entry.teamName,
+      teamNumber: entry.teamNumber,
+      score: entry.score,
+      rank: team.rank
     };
+  });
+}
+
+/**
+ * Get an event's public scoreboard (no contact details), ranked
+ * Reads the public scoreboard node, never the full team records.
+ */
+export async function getPublicScoreboard(eventId: string): Promise<PublicTeam[]> {
+  return toPublicTeams(await getTeamRepository().getScoreboard(eventId));
+}
+
+/**
+ * Rewrite an event's public scoreboard node from the full team records
+ * Safe to run any time, e.g. after teams were edited outside the app
+ */
+export async function rebuildPublicScoreboard(eventId: string): Promise<number> {
+  const teams = await getAllTeams(eventId);
+  const entries: Record<string, ScoreboardEntry> = {};
+
+  teams.forEach(team => {
+    entries[team.uid] = toScoreboardEntry(team);
+  });
+
+  await getTeamRepository().replaceScoreboard(eventId, entries);
+  return teams.length;
+}
+
+/**
+ * Set up real-time listener for an event's scoreboard
+ * This function will call the callback whenever team scores change.
+ * Only the public scoreboard node is read, so browsers never receive contact details.
+ * onError is called instead of the callback if the listener fails or can't be set up.
+ */
+export function subscribeToScoreboard(
+  eventId: string,
+  callback: (teams: PublicTeam[]) => void,
+  onError: (error: Error) => void
+): () => void {
+  try {
+    return getTeamRepository().subscribeToScoreboard(eventId, entries => callback(toPublicTeams(entries)), onError);
   } catch (error) {
-    console.error('Error setting up Realtime Database listener:', error);
+    console.error('Error setting up scoreboard listener:', error);
+    onError(error instanceof Error ? error : new Error(String(error)));
     // Return a dummy unsubscribe function
     return () => {};
   }
-}
\ No newline at end of file
+}
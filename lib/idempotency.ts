@@ -0,0 +1,150 @@
+// Idempotency key storage
+// Lets clients safely retry requests: the first result for a key is stored
+// and replayed for duplicates instead of applying the change again
+
+import { createHash } from 'crypto';
+import type { NextApiRequest } from 'next';
+import { getTeamRepository } from './teamRepository';
+import { pruneExpiredKeys } from './expiringKeys';
+
+// Root node holding processed keys (no teamName property, so team scans skip it)
+export const IDEMPOTENCY_NODE = 'idempotencyKeys';
+
+// How long processed keys are remembered, overridable per deployment
+const DEFAULT_WINDOW_MINUTES = 24 * 60;
+
+// How long a claim holds its key before the request completes
+// Kept short so a crash, or a result that failed to store, only blocks retries briefly
+export const PENDING_LEASE_MS = 60 * 1000;
+
+// Header clients send the key in; `eventId` in the body is accepted as a fallback
+export const IDEMPOTENCY_HEADER = 'idempotency-key';
+
+const MAX_KEY_LENGTH = 200;
+
+export interface IdempotencyRecord<T = unknown> {
+  status: 'pending' | 'completed';
+  statusCode?: number;
+  body?: T;
+  fingerprint?: string; // Hash of the request the key was first used for (see fingerprintRequest)
+  createdAt: number;
+  expiresAt: number;
+}
+
+export type IdempotencyClaim<T = unknown> =
+  | { claimed: true }
+  | { claimed: false; record: IdempotencyRecord<T> };
+
+/**
+ * Read the retention window from the environment
+ */
+function getWindowMs(): number {
+  const minutes = Number(process.env.IDEMPOTENCY_WINDOW_MINUTES);
+  return (minutes > 0 ? minutes : DEFAULT_WINDOW_MINUTES) * 60 * 1000;
+}
+
+/**
+ * Storage key for a client key
+ * Keys are hashed because client values may contain characters that are
+ * not allowed in database paths, and are scoped so routes (and teams) never collide
+ */
+function storageKey(scope: string, key: string): string {
+  return createHash('sha256').update(`${scope}:${key}`).digest('hex');
+}
+
+/**
+ * Fingerprint the fields that decide what a request does
+ * Stored with its key, so reusing the key for a different request is refused instead of replayed.
+ * Keys are sorted first, so the field order doesn't matter.
+ */
+export function fingerprintRequest(fields: Record<string, unknown>): string {
+  const canonical = Object.keys(fields).sort().map(name => [name, fields[name]]);
+  return createHash('sha256').update(JSON.stringify(canonical)).digest('hex');
+}
+
+/**
+ * Check whether a stored record was made for the same request
+ * Records stored before fingerprints were added match any request.
+ */
+export function matchesFingerprint(record: IdempotencyRecord, fingerprint: string): boolean {
+  return !record.fingerprint || record.fingerprint === fingerprint;
+}
+
+/**
+ * Extract the idempotency key from a request
+ * Returns null when none was sent and throws when the key is malformed
+ */
+export function getIdempotencyKey(req: NextApiRequest): string | null {
+  const header = req.headers[IDEMPOTENCY_HEADER];
+  const key = Array.isArray(header) ? header[0] : header || (req.body && req.body.eventId);
+  return parseIdempotencyKey(key);
+}
+
+/**
+ * Check a client-supplied idempotency key (e.g. a batched event's eventId)
+ * Returns null when empty and throws when the key is malformed
+ */
+export function parseIdempotencyKey(key: unknown): string | null {
+  if (key === undefined || key === null || key === '') {
+    return null;
+  }
+
+  if (typeof key !== 'string' || key.length > MAX_KEY_LENGTH) {
+    throw new Error(`Idempotency key must be a string of at most ${MAX_KEY_LENGTH} characters`);
+  }
+
+  return key;
+}
+
+/**
+ * Try to claim a key before processing a request
+ * Exactly one concurrent caller wins the claim; everyone else gets the stored record.
+ * The claim lasts PENDING_LEASE_MS; only a completed key is kept for the full window.
+ * Expired records are treated as absent and overwritten, and pruned now and then.
+ */
+export async function claimIdempotencyKey<T = unknown>(
+  scope: string,
+  key: string,
+  fingerprint: string
+): Promise<IdempotencyClaim<T>> {
+  const now = Date.now();
+  const pending: IdempotencyRecord<T> = {
+    status: 'pending',
+    fingerprint,
+    createdAt: now,
+    expiresAt: now + PENDING_LEASE_MS
+  };
+
+  const claim = await getTeamRepository().claimExpiringKey(IDEMPOTENCY_NODE, storageKey(scope, key), pending);
+  pruneExpiredKeys(IDEMPOTENCY_NODE);
+  return claim.claimed ? { claimed: true } : { claimed: false, record: claim.existing };
+}
+
+/**
+ * Store the final response for a claimed key so duplicates can replay it
+ */
+export async function completeIdempotencyKey<T>(
+  scope: string,
+  key: string,
+  fingerprint: string,
+  statusCode: number,
+  body: T
+): Promise<void> {
+  const now = Date.now();
+  const record: IdempotencyRecord<T> = {
+    status: 'completed',
+    statusCode,
+    body,
+    fingerprint,
+    createdAt: now,
+    expiresAt: now + getWindowMs()
+  };
+  await getTeamRepository().setExpiringKey(IDEMPOTENCY_NODE, storageKey(scope, key), record);
+}
+
+/**
+ * Release a claimed key after a server failure so the client can retry it
+ */
+export async function releaseIdempotencyKey(scope: string, key: string): Promise<void> {
+  await getTeamRepository().setExpiringKey(IDEMPOTENCY_NODE, storageKey(scope, key), null);
+}
@@ -0,0 +1,345 @@
+// In-memory implementation of TeamRepository
+// Holds everything in plain objects for the lifetime of the process. Used to run the API
+// with no network (STORAGE_BACKEND=memory) and to give each test a fresh, isolated store.
+
+import {
+  toScoreboardEntry,
+  type Team,
+  type ScoreEvent,
+  type ScoreChangeDetails,
+  type ScoreboardEntry
+} from './firestore';
+import type { TeamTokenRecord } from './teamTokens';
+import type { EventSettings, EventSummary } from './events';
+import type { TeamRepository, TeamChanges, ExpiringRecord } from './teamRepository';
+import type { TeamIndexEntries, TeamIndexMeta } from './teamIndex';
+
+// Everything stored for one event
+interface MemoryEvent {
+  settings: EventSettings | null;
+  teams: Record<string, Team>;
+  scoreboard: Record<string, ScoreboardEntry>;
+  scoreEvents: Record<string, ScoreEvent[]>;
+  teamTokens: Record<string, TeamTokenRecord>;
+  teamCounter: number | null;
+  teamIndex: TeamIndexEntries & { meta: TeamIndexMeta | null };
+}
+
+// Team fields mirrored to the public scoreboard
+const SCOREBOARD_FIELDS: Array<keyof ScoreboardEntry> = ['teamName', 'teamNumber', 'score', 'disqualified'];
+
+/**
+ * Deep copy a stored value so callers can't mutate the store through it
+ */
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Apply changes to the given fields of a stored record; null removes a field, undefined is skipped
+ */
+function applyChanges<T extends object>(
+  record: T,
+  changes: { [K in keyof T]?: T[K] | null },
+  fields: Array<keyof T>
+): void {
+  fields.forEach(field => {
+    const value = changes[field];
+    if (value === null) {
+      delete record[field];
+    } else if (value !== undefined) {
+      record[field] = clone(value);
+    }
+  });
+}
+
+export function createMemoryTeamRepository(): TeamRepository {
+  const events: Record<string, MemoryEvent> = {};
+  const listeners: Record<string, Array<(entries: ScoreboardEntry[]) => void>> = {};
+  const expiringKeys: Record<string, ExpiringRecord> = {};
+  let nameBlocklist: string[] | null = null;
+  let ledgerSequence = 0;
+
+  const getEvent = (eventId: string): MemoryEvent => {
+    if (!events[eventId]) {
+      events[eventId] = {
+        settings: null,
+        teams: {},
+        scoreboard: {},
+        scoreEvents: {},
+        teamTokens: {},
+        teamCounter: null,
+        teamIndex: { names: {}, emails: {}, meta: null }
+      };
+    }
+    return events[eventId];
+  };
+
+  const scoreboardEntries = (eventId: string): ScoreboardEntry[] => {
+    const scoreboard = getEvent(eventId).scoreboard;
+    return Object.keys(scoreboard).map(uid => clone(scoreboard[uid]));
+  };
+
+  // Mirror the realtime listener behaviour: every scoreboard write notifies subscribers
+  const notifyScoreboard = (eventId: string) => {
+    (listeners[eventId] || []).forEach(callback => callback(scoreboardEntries(eventId)));
+  };
+
+  const createScoreEvent = (uid: string, amount: number, details: ScoreChangeDetails): ScoreEvent => {
+    ledgerSequence += 1;
+    return {
+      id: `mem-${ledgerSequence}`,
+      uid,
+      amount,
+      source: details.source || 'api',
+      reason: details.reason || '',
+      createdAt: Date.now(),
+      ...(details.occurredAt !== undefined ? { occurredAt: details.occurredAt } : {})
+    };
+  };
+
+  const appendEvent = (eventId: string, event: ScoreEvent) => {
+    const ledger = getEvent(eventId).scoreEvents;
+    ledger[event.uid] = (ledger[event.uid] || []).concat(event);
+  };
+
+  return {
+    async getTeam(eventId, uid) {
+      const team = getEvent(eventId).teams[uid];
+      return team ? clone(team) : null;
+    },
+
+    async listTeams(eventId) {
+      const teams = getEvent(eventId).teams;
+      return Object.keys(teams).map(uid => clone(teams[uid]));
+    },
+
+    async createTeam(eventId, team) {
+      const event = getEvent(eventId);
+      if (event.teams[team.uid]) {
+        return false;
+      }
+      event.teams[team.uid] = clone(team);
+      event.scoreboard[team.uid] = toScoreboardEntry(team);
+      notifyScoreboard(eventId);
+      return true;
+    },
+
+    async updateTeam(eventId, uid, changes: TeamChanges) {
+      const event = getEvent(eventId);
+      const team = event.teams[uid];
+      const entry = event.scoreboard[uid];
+
+      if (team) {
+        applyChanges(team, changes, Object.keys(changes) as Array<keyof Team>);
+      }
+      if (team && entry) {
+        applyChanges(entry, changes, SCOREBOARD_FIELDS);
+      }
+
+      notifyScoreboard(eventId);
+    },
+
+    async deleteTeam(eventId, uid) {
+      const event = getEvent(eventId);
+      delete event.teams[uid];
+      delete event.scoreboard[uid];
+      delete event.teamTokens[uid];
+      notifyScoreboard(eventId);
+    },
+
+    async getTeamCounter(eventId) {
+      return getEvent(eventId).teamCounter;
+    },
+
+    async advanceTeamCounter(eventId, floor, step) {
+      const event = getEvent(eventId);
+      event.teamCounter = Math.max(event.teamCounter || 0, floor) + step;
+      return event.teamCounter;
+    },
+
+    async getIndexedUid(eventId, index, key) {
+      return getEvent(eventId).teamIndex[index][key] || null;
+    },
+
+    async claimIndexKey(eventId, index, key, uid) {
+      const entries = getEvent(eventId).teamIndex[index];
+      if (!entries[key]) {
+        entries[key] = uid;
+      }
+      return entries[key];
+    },
+
+    async releaseIndexKey(eventId, index, key, uid) {
+      const entries = getEvent(eventId).teamIndex[index];
+      if (entries[key] === uid) {
+        delete entries[key];
+      }
+    },
+
+    async getTeamIndexMeta(eventId) {
+      const meta = getEvent(eventId).teamIndex.meta;
+      return meta ? clone(meta) : null;
+    },
+
+    async setTeamIndexMeta(eventId, meta) {
+      getEvent(eventId).teamIndex.meta = clone(meta);
+    },
+
+    async replaceTeamIndex(eventId, entries, meta) {
+      getEvent(eventId).teamIndex = { ...clone(entries), meta: clone(meta) };
+    },
+
+    async getNameBlocklist() {
+      return nameBlocklist ? nameBlocklist.slice() : null;
+    },
+
+    async setNameBlocklist(words) {
+      nameBlocklist = words.slice();
+    },
+
+    async applyScoreChange(eventId, uid, amount, details) {
+      const event = getEvent(eventId);
+      const scoreEvent = createScoreEvent(uid, amount, details);
+
+      // Single-threaded, so these writes can't interleave with another change
+      if (event.teams[uid]) {
+        event.teams[uid].score = (event.teams[uid].score || 0) + amount;
+      }
+      if (event.scoreboard[uid]) {
+        event.scoreboard[uid].score = (event.scoreboard[uid].score || 0) + amount;
+      }
+      appendEvent(eventId, scoreEvent);
+
+      notifyScoreboard(eventId);
+      return clone(scoreEvent);
+    },
+
+    async applyScoreChanges(eventId, uid, changes) {
+      const event = getEvent(eventId);
+      const scoreEvents = changes.map(change => createScoreEvent(uid, change.amount, change));
+      const total = scoreEvents.reduce((sum, scoreEvent) => sum + scoreEvent.amount, 0);
+
+      if (event.teams[uid]) {
+        event.teams[uid].score = (event.teams[uid].score || 0) + total;
+      }
+      if (event.scoreboard[uid]) {
+        event.scoreboard[uid].score = (event.scoreboard[uid].score || 0) + total;
+      }
+      scoreEvents.forEach(scoreEvent => appendEvent(eventId, scoreEvent));
+
+      notifyScoreboard(eventId);
+      return scoreEvents.map(scoreEvent => clone(scoreEvent));
+    },
+
+    async appendScoreEvent(eventId, uid, amount, details) {
+      const scoreEvent = createScoreEvent(uid, amount, details);
+      appendEvent(eventId, scoreEvent);
+      return clone(scoreEvent);
+    },
+
+    async setScore(eventId, uid, score) {
+      const event = getEvent(eventId);
+      if (event.teams[uid]) {
+        event.teams[uid].score = score;
+      }
+      if (event.scoreboard[uid]) {
+        event.scoreboard[uid].score = score;
+      }
+      notifyScoreboard(eventId);
+    },
+
+    async getScoreEvents(eventId, uid) {
+      return clone(getEvent(eventId).scoreEvents[uid] || []);
+    },
+
+    async replaceScoreboard(eventId, entries) {
+      getEvent(eventId).scoreboard = clone(entries);
+      notifyScoreboard(eventId);
+    },
+
+    async getScoreboard(eventId) {
+      return scoreboardEntries(eventId);
+    },
+
+    subscribeToScoreboard(eventId, callback) {
+      listeners[eventId] = (listeners[eventId] || []).concat(callback);
+      callback(scoreboardEntries(eventId));
+
+      return () => {
+        listeners[eventId] = (listeners[eventId] || []).filter(listener => listener !== callback);
+      };
+    },
+
+    async getTeamToken(eventId, uid) {
+      const record = getEvent(eventId).teamTokens[uid];
+      return record ? clone(record) : null;
+    },
+
+    async setTeamToken(eventId, uid, record) {
+      const event = getEvent(eventId);
+      if (record) {
+        event.teamTokens[uid] = clone(record);
+      } else {
+        delete event.teamTokens[uid];
+      }
+    },
+
+    async getEventSettings(eventId) {
+      const settings = events[eventId] && events[eventId].settings;
+      return settings ? clone(settings) : null;
+    },
+
+    async createEvent(eventId, settings) {
+      getEvent(eventId).settings = clone(settings);
+    },
+
+    async listEvents() {
+      const summaries: EventSummary[] = [];
+      for (const eventId in events) {
+        const settings = events[eventId].settings;
+        if (settings) {
+          summaries.push({ eventId, ...settings });
+        }
+      }
+      return summaries;
+    },
+
+    async claimExpiringKey(node, key, record) {
+      const path = `${node}/${key}`;
+      const current = expiringKeys[path];
+      if (current && current.expiresAt > Date.now()) {
+        return { claimed: false, existing: clone(current) as typeof record };
+      }
+      expiringKeys[path] = clone(record);
+      return { claimed: true };
+    },
+
+    async getExpiringKey<T extends ExpiringRecord>(node: string, key: string) {
+      const current = expiringKeys[`${node}/${key}`];
+      return current && current.expiresAt > Date.now() ? clone(current) as T : null;
+    },
+
+    async setExpiringKey(node, key, record) {
+      const path = `${node}/${key}`;
+      if (record) {
+        expiringKeys[path] = clone(record);
+      } else {
+        delete expiringKeys[path];
+      }
+    },
+
+    async deleteExpiredKeys(node, now, limit) {
+      const prefix = `${node}/`;
+      const expired = Object.keys(expiringKeys)
+        .filter(path => path.indexOf(prefix) === 0 && expiringKeys[path].expiresAt <= now)
+        .sort((a, b) => expiringKeys[a].expiresAt - expiringKeys[b].expiresAt)
+        .slice(0, limit);
+
+      expired.forEach(path => {
+        delete expiringKeys[path];
+      });
+      return expired.length;
+    }
+  };
+}
@@ -0,0 +1,171 @@
+// Legacy data migration
+// Early deployments stored teams as root children keyed by UID, mixed in with anything
+// else written at the root. This moves valid team records into events/{eventId}/teams/
+// and reports every node it could not move.
+// Firebase only: it reads the database root directly rather than going through the TeamRepository.
+
+import { ref, get, update } from 'firebase/database';
+import { db, ensureAuth } from './firebase';
+import {
+  rebuildPublicScoreboard,
+  SCOREBOARD_NODE,
+  SCORE_EVENTS_NODE,
+  type Team
+} from './firestore';
+import { eventPath, EVENTS_NODE, EVENT_LIST_NODE, TEAMS_NODE } from './events';
+import { TEAM_TOKENS_NODE } from './teamTokens';
+import { syncTeamCounter } from './teamNumbers';
+import { rebuildTeamIndex } from './teamIndex';
+import { NAME_BLOCKLIST_NODE } from './teamNames';
+import { IDEMPOTENCY_NODE } from './idempotency';
+import { SIGNATURE_NONCES_NODE } from './signature';
+
+// Root nodes that belong to the current schema and are never migrated
+const SYSTEM_NODES = [EVENTS_NODE, EVENT_LIST_NODE, IDEMPOTENCY_NODE, SIGNATURE_NONCES_NODE, NAME_BLOCKLIST_NODE];
+
+// Root nodes written by pre-namespacing versions; their per-team children move with the team
+const LEGACY_TEAM_DATA_NODES = [SCORE_EVENTS_NODE, TEAM_TOKENS_NODE];
+
+export interface MalformedNode {
+  key: string;
+  errors: string[];
+}
+
+export interface SkippedNode {
+  key: string;
+  reason: string;
+}
+
+export interface MigrationReport {
+  eventId: string;
+  dryRun: boolean;
+  migrated: string[]; // UIDs moved (or that would be moved in a dry run)
+  malformed: MalformedNode[]; // Look like teams but fail validation - left in place
+  conflicts: string[]; // UIDs that already exist in the target event - left in place
+  skipped: SkippedNode[]; // Root nodes that are not team records
+}
+
+/**
+ * Validate a raw database value against the Team interface
+ * Returns a list of problems; an empty list means the record is a valid team
+ */
+export function validateTeamRecord(key: string, value: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!value || typeof value !== 'object') {
+    return ['Value is not an object'];
+  }
+
+  const record = value as Record<string, unknown>;
+
+  const requiredStrings: Array<keyof Team> = ['uid', 'teamName', 'player1', 'player2', 'email', 'phoneNumber'];
+  requiredStrings.forEach(field => {
+    const fieldValue = record[field];
+    if (typeof fieldValue !== 'string' || !fieldValue.trim()) {
+      errors.push(`${field} must be a non-empty string`);
+    }
+  });
+
+  if (typeof record.uid === 'string' && record.uid !== key) {
+    errors.push(`uid "${record.uid}" does not match node key "${key}"`);
+  }
+
+  if (typeof record.teamNumber !== 'number' || record.teamNumber < 1 || Math.floor(record.teamNumber) !== record.teamNumber) {
+    errors.push('teamNumber must be a positive integer');
+  }
+
+  if (typeof record.score !== 'number' || !isFinite(record.score)) {
+    errors.push('score must be a number');
+  }
+
+  if (typeof record.createdAt !== 'number' || !isFinite(record.createdAt)) {
+    errors.push('createdAt must be a Unix timestamp in milliseconds');
+  }
+
+  return errors;
+}
+
+/**
+ * Move legacy root-level teams into an event
+ * In dry-run mode nothing is written; the report shows what would happen.
+ * All moves are applied in a single multi-path update, so a failed run changes nothing.
+ */
+export async function migrateLegacyTeams(eventId: string, dryRun: boolean = true): Promise<MigrationReport> {
+  await ensureAuth();
+  const report: MigrationReport = {
+    eventId,
+    dryRun,
+    migrated: [],
+    malformed: [],
+    conflicts: [],
+    skipped: []
+  };
+
+  const [rootSnapshot, targetSnapshot] = await Promise.all([
+    get(ref(db)),
+    get(ref(db, eventPath(eventId, TEAMS_NODE)))
+  ]);
+
+  if (!rootSnapshot.exists()) {
+    return report;
+  }
+
+  const rootData = rootSnapshot.val();
+  const existingTeams = targetSnapshot.exists() ? targetSnapshot.val() : {};
+  const updates: Record<string, unknown> = {};
+
+  for (const key in rootData) {
+    const value = rootData[key];
+
+    if (SYSTEM_NODES.indexOf(key) !== -1 || LEGACY_TEAM_DATA_NODES.indexOf(key) !== -1) {
+      continue;
+    }
+
+    if (key === SCOREBOARD_NODE) {
+      // The old public mirror is regenerated for the event below
+      report.skipped.push({ key, reason: 'Legacy public scoreboard - rebuilt from migrated teams' });
+      updates[key] = null;
+      continue;
+    }
+
+    // Same filter the old readers used: only nodes with a teamName were teams
+    if (!value || typeof value !== 'object' || value.teamName === undefined) {
+      report.skipped.push({ key, reason: 'Not a team record (no teamName property)' });
+      continue;
+    }
+
+    const errors = validateTeamRecord(key, value);
+    if (errors.length > 0) {
+      report.malformed.push({ key, errors });
+      continue;
+    }
+
+    if (existingTeams[key]) {
+      report.conflicts.push(key);
+      continue;
+    }
+
+    report.migrated.push(key);
+    updates[eventPath(eventId, TEAMS_NODE, key)] = value;
+    updates[key] = null;
+
+    // Carry over the ledger and token written by pre-namespacing versions
+    LEGACY_TEAM_DATA_NODES.forEach(node => {
+      const legacyData = rootData[node] && rootData[node][key];
+      if (legacyData) {
+        updates[eventPath(eventId, node, key)] = legacyData;
+        updates[`${node}/${key}`] = null;
+      }
+    });
+  }
+
+  if (!dryRun && report.migrated.length > 0) {
+    await update(ref(db), updates);
+    await rebuildPublicScoreboard(eventId);
+    // Keep new registrations from reusing the migrated teams' numbers, names and emails
+    await syncTeamCounter(eventId);
+    await rebuildTeamIndex(eventId);
+  }
+
+  return report;
+}
@@ -0,0 +1,69 @@
+// Participant emails
+// Registration confirmations and final results, rendered from the emails/ templates
+
+import { getAllTeams, rankTeams, type Team } from './firestore';
+import { getEventName } from './events';
+import { sendEmail } from './email';
+import { renderEmailTemplate } from './emailTemplates';
+
+export interface ResultsMailing {
+  sent: number;
+  failed: string[]; // UIDs of teams whose email could not be sent
+}
+
+/**
+ * Email a team its registration details
+ * Delivery problems are logged and reported, never thrown - the team is registered either way
+ */
+export async function sendRegistrationConfirmation(eventId: string, team: Team): Promise<boolean> {
+  try {
+    const message = await renderEmailTemplate('registration-confirmation', team.emailDisplay || team.email, {
+      eventName: await getEventName(eventId),
+      teamName: team.teamName,
+      teamNumber: team.teamNumber,
+      uid: team.uid,
+      player1: team.player1,
+      player2: team.player2
+    });
+    return await sendEmail(message);
+  } catch (error) {
+    console.error('Failed to send registration confirmation:', error);
+    return false;
+  }
+}
+
+/**
+ * Email every ranked team its final score and rank (organizer use)
+ * Disqualified teams have no rank and are skipped
+ */
+export async function sendFinalResults(eventId: string): Promise<ResultsMailing> {
+  const [teams, eventName] = await Promise.all([getAllTeams(eventId), getEventName(eventId)]);
+  const ranked = rankTeams(teams);
+  const result: ResultsMailing = { sent: 0, failed: [] };
+
+  // One at a time to stay within SMTP provider rate limits
+  for (const team of ranked) {
+    try {
+      const message = await renderEmailTemplate('final-results', team.emailDisplay || team.email, {
+        eventName,
+        teamName: team.teamName,
+        player1: team.player1,
+        player2: team.player2,
+        score: team.score,
+        rank: team.rank,
+        teamCount: ranked.length
+      });
+
+      if (await sendEmail(message)) {
+        result.sent++;
+      } else {
+        result.failed.push(team.uid);
+      }
+    } catch (error) {
+      console.error(`Failed to render results email for ${team.uid}:`, error);
+      result.failed.push(team.uid);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,332 @@
+// OpenAPI document
+// Describes /api/v1/* from the route definitions below and the schemas in lib/apiSchemas.ts,
+// and is served at GET /api/openapi.json. The typed client in lib/apiClient.ts is generated
+// from it (npm run generate:api-client), so update this file whenever a v1 route changes.
+
+import type { ApiErrorCode } from './errors';
+import { API_V1_PREFIX } from './apiV1';
+import { LEGACY_API_DEPRECATED_AT } from './apiVersions';
+import { API_ERROR_STATUSES, API_SCHEMAS, ref, type ApiSchemaName, type JsonSchema } from './apiSchemas';
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER } from './signature';
+import { TEAM_TOKEN_HEADER } from './teamTokens';
+import { IDEMPOTENCY_HEADER } from './idempotency';
+
+export const API_TITLE = 'AR Treasure Hunt API';
+export const API_VERSION = '1.0.0';
+
+// Signed requests (X-Signature and X-Signature-Timestamp), a team token, or an organizer key
+export type ApiSecurity = 'signature' | 'teamToken' | 'organizer';
+
+export interface ApiParameter {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+export interface ApiRoute {
+  operationId: string; // Also the function name in the generated client
+  method: 'get' | 'post';
+  path: string; // Relative to /api/v1
+  summary: string;
+  security?: ApiSecurity[]; // All of these are needed
+  query?: ApiParameter[]; // `event` is added to every route
+  headers?: ApiParameter[];
+  body?: ApiSchemaName;
+  responses: Array<{ status: number; description: string; schema: ApiSchemaName }>;
+  events?: Array<{ event: string; schema: ApiSchemaName }>; // Server-Sent Events streamed with a 200 instead of JSON
+  errors: ApiErrorCode[]; // METHOD_NOT_ALLOWED, INVALID_EVENT_ID and INTERNAL_ERROR are added to every route
+}
+
+const SIGNATURE_ERRORS: ApiErrorCode[] = ['SIGNATURE_MISSING', 'SIGNATURE_INVALID', 'SIGNATURE_EXPIRED', 'SIGNATURE_REPLAYED'];
+const TEAM_TOKEN_ERRORS: ApiErrorCode[] = ['TEAM_TOKEN_MISSING', 'TEAM_TOKEN_INVALID', 'TEAM_TOKEN_NOT_ISSUED'];
+const COMMON_ERRORS: ApiErrorCode[] = ['METHOD_NOT_ALLOWED', 'INVALID_EVENT_ID', 'INTERNAL_ERROR'];
+
+const TEAM_QUERY: ApiParameter[] = [
+  { name: 'uid', description: 'Team UID (one of uid or teamName)' },
+  { name: 'teamName', description: 'Team name (one of uid or teamName)' }
+];
+
+export const API_ROUTES: ApiRoute[] = [
+  {
+    operationId: 'registerTeam',
+    method: 'post',
+    path: '/register',
+    summary: 'Register a team in two steps: request a verification code, then send it back with the same details',
+    body: 'RegisterRequest',
+    responses: [
+      { status: 202, description: 'Verification code sent', schema: 'RegisterCodeSent' },
+      { status: 201, description: 'Team created', schema: 'RegisterCreated' }
+    ],
+    errors: [
+      'VALIDATION_FAILED',
+      'TEAM_NAME_BLOCKED',
+      'EVENT_NOT_FOUND',
+      'TEAM_NAME_TAKEN',
+      'EMAIL_TAKEN',
+      'OTP_INVALID',
+      'OTP_EXPIRED',
+      'OTP_COOLDOWN',
+      'OTP_LOCKED',
+      'OTP_RATE_LIMITED',
+      'OTP_DELIVERY_FAILED',
+      'TEAM_INDEX_UNAVAILABLE'
+    ]
+  },
+  {
+    operationId: 'updateScore',
+    method: 'post',
+    path: '/update-score',
+    summary: "Add points to a team's score",
+    security: ['signature', 'teamToken'],
+    headers: [
+      { name: IDEMPOTENCY_HEADER, description: 'Retries with the same key replay the first result instead of scoring twice' }
+    ],
+    body: 'UpdateScoreRequest',
+    responses: [{ status: 200, description: 'Score updated', schema: 'UpdateScoreResult' }],
+    errors: [
+      'INVALID_JSON',
+      'VALIDATION_FAILED',
+      'INVALID_IDEMPOTENCY_KEY',
+      ...SIGNATURE_ERRORS,
+      ...TEAM_TOKEN_ERRORS,
+      'TEAM_DISQUALIFIED',
+      'TEAM_NOT_FOUND',
+      'IDEMPOTENCY_IN_PROGRESS',
+      'IDEMPOTENCY_KEY_REUSED'
+    ]
+  },
+  {
+    operationId: 'updateScoreBatch',
+    method: 'post',
+    path: '/update-score/batch',
+    summary: "Apply one team's queued scoring events in order, in a single write",
+    security: ['signature', 'teamToken'],
+    body: 'UpdateScoreBatchRequest',
+    responses: [{ status: 200, description: 'What happened to each event', schema: 'UpdateScoreBatchResult' }],
+    errors: [
+      'INVALID_JSON',
+      'VALIDATION_FAILED',
+      ...SIGNATURE_ERRORS,
+      ...TEAM_TOKEN_ERRORS,
+      'TEAM_DISQUALIFIED',
+      'TEAM_NOT_FOUND'
+    ]
+  },
+  {
+    operationId: 'getTeam',
+    method: 'get',
+    path: '/team',
+    summary: 'Look up a team by UID or name',
+    security: ['signature', 'teamToken'],
+    query: TEAM_QUERY,
+    responses: [{ status: 200, description: 'The team', schema: 'TeamResult' }],
+    errors: ['VALIDATION_FAILED', ...SIGNATURE_ERRORS, ...TEAM_TOKEN_ERRORS, 'TEAM_NOT_FOUND', 'TEAM_INDEX_UNAVAILABLE']
+  },
+  {
+    operationId: 'lookupTeam',
+    method: 'post',
+    path: '/team',
+    summary: 'Look up a team by UID or name, sent in the body',
+    security: ['signature', 'teamToken'],
+    body: 'TeamLookupRequest',
+    responses: [{ status: 200, description: 'The team', schema: 'TeamResult' }],
+    errors: ['INVALID_JSON', 'VALIDATION_FAILED', ...SIGNATURE_ERRORS, ...TEAM_TOKEN_ERRORS, 'TEAM_NOT_FOUND', 'TEAM_INDEX_UNAVAILABLE']
+  },
+  {
+    operationId: 'getScoreboard',
+    method: 'get',
+    path: '/scoreboard',
+    summary: 'Ranked public scoreboard (disqualified teams are left out)',
+    responses: [{ status: 200, description: 'The scoreboard', schema: 'ScoreboardResult' }],
+    errors: []
+  },
+  {
+    operationId: 'streamScoreboard',
+    method: 'get',
+    path: '/scoreboard/stream',
+    summary: 'Scoreboard updates as Server-Sent Events, with a heartbeat every 15 seconds',
+    query: [{ name: 'lastEventId', description: 'Resume after this event, for clients that cannot send Last-Event-ID' }],
+    headers: [{ name: 'Last-Event-ID', description: 'Resume after this event - the updates missed since are sent first' }],
+    responses: [],
+    events: [
+      { event: 'scoreboard', schema: 'ScoreboardSnapshot' },
+      { event: 'score', schema: 'ScoreChangeEvent' },
+      { event: 'heartbeat', schema: 'StreamHeartbeat' },
+      { event: 'stream-error', schema: 'StreamError' }
+    ],
+    errors: []
+  },
+  {
+    operationId: 'getScoreEvents',
+    method: 'get',
+    path: '/score-events',
+    summary: "A team's score ledger, reconciled against its stored score",
+    query: [{ name: 'uid', description: 'Team UID', required: true }],
+    responses: [{ status: 200, description: 'The ledger', schema: 'ScoreEventsResult' }],
+    errors: ['VALIDATION_FAILED', 'TEAM_NOT_FOUND']
+  },
+  {
+    operationId: 'getOtpDelivery',
+    method: 'get',
+    path: '/otp-delivery',
+    summary: 'Delivery status of a verification code sent by SMS',
+    query: [{ name: 'id', description: 'deliveryId from the registration response', required: true }],
+    responses: [{ status: 200, description: 'The delivery status', schema: 'OtpDeliveryResult' }],
+    errors: ['VALIDATION_FAILED', 'DELIVERY_NOT_FOUND']
+  },
+  {
+    operationId: 'manageTeamToken',
+    method: 'post',
+    path: '/team-token',
+    summary: "Rotate or revoke a team's token",
+    security: ['organizer'],
+    body: 'TeamTokenRequest',
+    responses: [{ status: 200, description: 'Token rotated or revoked', schema: 'TeamTokenResult' }],
+    errors: ['UNAUTHORIZED', 'VALIDATION_FAILED', 'TEAM_NOT_FOUND']
+  }
+];
+
+// Each entry is one security scheme; ApiSecurity values may need several
+const SECURITY_SCHEMES: Record<ApiSecurity, string[]> = {
+  signature: ['signature', 'signatureTimestamp'],
+  teamToken: ['teamToken'],
+  organizer: ['organizer']
+};
+
+function parameter(location: 'query' | 'header', param: ApiParameter) {
+  return {
+    name: param.name,
+    in: location,
+    description: param.description,
+    required: !!param.required,
+    schema: { type: 'string' }
+  };
+}
+
+/**
+ * Error responses of a route, one per status, listing the codes it can return
+ */
+function errorResponses(codes: ApiErrorCode[]): Record<string, unknown> {
+  const byStatus: Record<string, ApiErrorCode[]> = {};
+
+  codes.concat(COMMON_ERRORS).forEach(code => {
+    const status = String(API_ERROR_STATUSES[code]);
+    byStatus[status] = byStatus[status] || [];
+    if (byStatus[status].indexOf(code) === -1) {
+      byStatus[status].push(code);
+    }
+  });
+
+  const responses: Record<string, unknown> = {};
+  Object.keys(byStatus).sort().forEach(status => {
+    responses[status] = {
+      description: byStatus[status].join(', '),
+      content: { 'application/json': { schema: ref('ErrorResponse') } }
+    };
+  });
+  return responses;
+}
+
+/**
+ * OpenAPI operation for a route
+ * Deprecated operations describe the unversioned alias of a v1 route.
+ */
+function operation(route: ApiRoute, deprecated: boolean) {
+  const query = [{ name: 'event', description: 'Event ID - defaults to the default event' }].concat(route.query || []);
+  const responses: Record<string, unknown> = {};
+
+  route.responses.forEach(response => {
+    responses[String(response.status)] = {
+      description: response.description,
+      content: { 'application/json': { schema: ref(response.schema) } }
+    };
+  });
+
+  if (route.events) {
+    const events = route.events;
+    responses['200'] = {
+      description: `Server-Sent Events: ${events.map(entry => `\`${entry.event}\` (${entry.schema})`).join(', ')}`,
+      content: { 'text/event-stream': { schema: { oneOf: events.map(entry => ref(entry.schema)) } } }
+    };
+  }
+
+  const security = route.security || [];
+  const requirement: Record<string, string[]> = {};
+  security.forEach(name => {
+    SECURITY_SCHEMES[name].forEach(scheme => {
+      requirement[scheme] = [];
+    });
+  });
+
+  return {
+    operationId: deprecated ? `${route.operationId}Deprecated` : route.operationId,
+    summary: route.summary,
+    ...(deprecated ? { deprecated: true, description: `Deprecated alias of ${API_V1_PREFIX}${route.path}` } : {}),
+    parameters: query.map(param => parameter('query', param))
+      .concat((route.headers || []).map(param => parameter('header', param))),
+    ...(route.body
+      ? { requestBody: { required: true, content: { 'application/json': { schema: ref(route.body) } } } }
+      : {}),
+    responses: { ...responses, ...errorResponses(route.errors) },
+    ...(security.length > 0 ? { security: [requirement] } : {})
+  };
+}
+
+/**
+ * Build the OpenAPI 3.1 document for the API
+ */
+export function buildOpenApiDocument() {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  API_ROUTES.forEach(route => {
+    const v1Path = `${API_V1_PREFIX}${route.path}`;
+    const legacyPath = `/api${route.path}`;
+    paths[v1Path] = paths[v1Path] || {};
+    paths[v1Path][route.method] = operation(route, false);
+    paths[legacyPath] = paths[legacyPath] || {};
+    paths[legacyPath][route.method] = operation(route, true);
+  });
+
+  const schemas: Record<string, JsonSchema> = API_SCHEMAS;
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: API_TITLE,
+      version: API_VERSION,
+      description:
+        `Routes under ${API_V1_PREFIX} are frozen. The unversioned routes are deprecated aliases ` +
+        `(since ${new Date(LEGACY_API_DEPRECATED_AT).toISOString().slice(0, 10)}). ` +
+        'Every request may name its event with the `event` query parameter or body field.'
+    },
+    paths,
+    components: {
+      schemas,
+      securitySchemes: {
+        signature: {
+          type: 'apiKey',
+          in: 'header',
+          name: SIGNATURE_HEADER,
+          description: 'Hex HMAC-SHA256 of `timestamp\\nMETHOD\\npath\\nbody` - required unless the server runs with SIGNATURE_REQUIRED=false'
+        },
+        signatureTimestamp: {
+          type: 'apiKey',
+          in: 'header',
+          name: TIMESTAMP_HEADER,
+          description: 'Unix time in seconds the signature was computed at'
+        },
+        teamToken: {
+          type: 'apiKey',
+          in: 'header',
+          name: TEAM_TOKEN_HEADER,
+          description: 'Token returned at registration (may also be sent as the `teamToken` body field)'
+        },
+        organizer: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'ADMIN_API_KEY'
+        }
+      }
+    }
+  };
+}
@@ -1,107 +1,307 @@
 // OTP (One-Time Password) utilities
-// This provides a simple email-based OTP system for team verification
+// This provides a simple OTP system for team verification, by email or SMS
+// Codes are stored hashed, lock after too many wrong guesses, and requests are
+// throttled per recipient and per IP so a 6-digit code can't be brute-forced.
+// The hash is an HMAC keyed with OTP_HASH_SECRET, so a leaked copy of the records (the database
+// rules keep clients out) can't be reversed offline the way a plain hash of a 6-digit code can.
+
+import { createHash, createHmac, randomBytes, randomInt, timingSafeEqual } from 'crypto';
+import type { NextApiRequest } from 'next';
+import { getOtpStore } from './otpStore';
+import { sendEmail } from './email';
+import { renderEmailTemplate } from './emailTemplates';
+import { sendSms, type SmsSendResult } from './sms';
+import { DEFAULT_EVENT_NAME } from './events';
+
+// Minutes a registration code stays valid
+export const OTP_EXPIRATION_MINUTES = 10;
+
+// Limits, overridable per deployment
+const DEFAULT_MAX_ATTEMPTS = 5; // Wrong guesses before the code is locked
+const DEFAULT_LOCKOUT_MINUTES = 15; // How long a locked recipient can't request or verify codes
+const DEFAULT_RESEND_COOLDOWN_SECONDS = 60; // Minimum gap between two codes for one recipient
+const DEFAULT_EMAIL_REQUESTS_PER_HOUR = 5; // Per email address or phone number
+const DEFAULT_IP_REQUESTS_PER_HOUR = 20;
+
+// Proxies in front of the app that append to X-Forwarded-For (1 for Vercel or a single load balancer)
+const DEFAULT_TRUSTED_PROXY_COUNT = 1;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// A stored code - only its salted, keyed hash is kept
+interface OtpRecord {
+  codeHash: string;
+  salt: string;
+  expiresAt: number;
+  sentAt: number;
+  attempts: number;
+  lockedUntil?: number;
+}
+
+// Fixed-window request counter
+interface ThrottleRecord {
+  count: number;
+  windowStart: number;
+}
+
+export type OtpErrorCode = 'OTP_COOLDOWN' | 'OTP_LOCKED' | 'OTP_RATE_LIMITED' | 'OTP_INVALID' | 'OTP_EXPIRED';
+
+export type OtpRequestResult =
+  | { sent: true; code: string; expiresInMinutes: number }
+  | { sent: false; code: OtpErrorCode; error: string; retryAfterSeconds: number };
+
+export type OtpVerifyResult =
+  | { valid: true }
+  | { valid: false; code: OtpErrorCode; error: string; retryAfterSeconds?: number };
+
+/**
+ * Read a positive number from the environment, or use the default
+ */
+function readLimit(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return value > 0 ? value : fallback;
+}
+
+/**
+ * Hash a value for use as a store key
+ * Emails and IPs contain characters that aren't allowed in database paths
+ */
+function hashKey(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Store key for a recipient (email address or phone number), case-insensitive and
+ * optionally scoped (e.g. by event ID)
+ */
+function codeKey(recipient: string, scope: string): string {
+  return `codes/${hashKey(`${scope}:${recipient.trim().toLowerCase()}`)}`;
+}
+
+/**
+ * Read the server-only key codes are hashed with
+ * Throws when it is missing, so no code is ever stored under a hash anyone could reverse
+ */
+function getHashSecret(): string {
+  const secret = process.env.OTP_HASH_SECRET;
+  if (!secret) {
+    throw new Error('OTP_HASH_SECRET is not set - verification codes are disabled');
+  }
+  return secret;
+}
+
+function hashCode(secret: string, code: string, salt: string): string {
+  return createHmac('sha256', secret).update(`${salt}:${code}`).digest('hex');
+}
+
+/**
+ * Compare two code hashes in constant time
+ */
+function hashesMatch(expected: string, provided: string): boolean {
+  const expectedBuffer = Buffer.from(expected, 'hex');
+  const providedBuffer = Buffer.from(provided, 'hex');
+  return expectedBuffer.length === providedBuffer.length && timingSafeEqual(expectedBuffer, providedBuffer);
+}
+
+/**
+ * Count one request against a fixed one-hour window
+ * Returns the seconds until the window resets when the limit is exceeded, otherwise 0
+ */
+async function consumeThrottle(key: string, limit: number): Promise<number> {
+  const now = Date.now();
+  let retryAfterMs = 0;
+
+  await getOtpStore().update<ThrottleRecord>(`throttle/${hashKey(key)}`, current => {
+    retryAfterMs = 0;
+    if (!current || now - current.windowStart >= HOUR_MS) {
+      return { count: 1, windowStart: now };
+    }
+    if (current.count >= limit) {
+      retryAfterMs = current.windowStart + HOUR_MS - now;
+      return current;
+    }
+    return { count: current.count + 1, windowStart: current.windowStart };
+  });
+
+  return Math.ceil(retryAfterMs / 1000);
+}
 
 /**
  * Generate a 6-digit OTP
  */
 export function generateOTP(): string {
-  return Math.floor(100000 + Math.random() * 900000).toString();
+  return ('00000' + randomInt(0, 1000000)).slice(-6);
 }
 
 /**
- * Store OTP temporarily (in production, use Redis or similar)
- * For now, using in-memory storage with expiration
+ * Number of trusted proxies from TRUSTED_PROXY_COUNT (0 when the app is reached directly)
  */
-const otpStore = new Map<string, { otp: string; expires: number; email: string }>();
+function getTrustedProxyCount(): number {
+  const value = process.env.TRUSTED_PROXY_COUNT;
+  const count = value ? Number(value) : NaN;
+  return count >= 0 && Math.floor(count) === count ? count : DEFAULT_TRUSTED_PROXY_COUNT;
+}
 
 /**
- * Store OTP for verification
+ * Client IP for throttling
+ * Clients can put anything in X-Forwarded-For, so only the hop added by the outermost trusted
+ * proxy is used - counted from the right. Without enough hops (or without proxies) the
+ * connection's own address is used.
  */
-export function storeOTP(email: string, otp: string, expirationMinutes: number = 10): void {
-  const expires = Date.now() + (expirationMinutes * 60 * 1000);
-  otpStore.set(email.toLowerCase(), { otp, expires, email });
-  
-  // Clean up expired OTPs
-  setTimeout(() => {
-    otpStore.delete(email.toLowerCase());
-  }, expirationMinutes * 60 * 1000);
+export function getClientIp(req: NextApiRequest): string {
+  const proxies = getTrustedProxyCount();
+  const forwarded = req.headers['x-forwarded-for'];
+  const hops = (Array.isArray(forwarded) ? forwarded.join(',') : forwarded || '')
+    .split(',')
+    .map(hop => hop.trim())
+    .filter(hop => hop);
+
+  const trusted = proxies > 0 && hops.length >= proxies ? hops[hops.length - proxies] : '';
+  return trusted || req.socket.remoteAddress || 'unknown';
 }
 
 /**
- * Verify OTP
+ * Issue a new code for a recipient, enforcing lockout, resend cooldown and throttles
+ * Returns the plain code for sending - only its hash is stored
  */
-export function verifyOTP(email: string, providedOTP: string): boolean {
-  const stored = otpStore.get(email.toLowerCase());
-  
-  if (!stored) {
-    return false; // OTP not found
+export async function requestOTP(recipient: string, scope: string, clientIp: string): Promise<OtpRequestResult> {
+  const secret = getHashSecret();
+  const key = codeKey(recipient, scope);
+  const now = Date.now();
+  const cooldownMs = readLimit('OTP_RESEND_COOLDOWN_SECONDS', DEFAULT_RESEND_COOLDOWN_SECONDS) * 1000;
+
+  // Lockout and cooldown are checked before the throttles so blocked retries don't use up the quota
+  const store = getOtpStore();
+  const existing = await store.get<OtpRecord>(key);
+  if (existing && existing.lockedUntil && existing.lockedUntil > now) {
+    return {
+      sent: false,
+      code: 'OTP_LOCKED',
+      error: 'Too many wrong codes. Please wait before requesting a new one.',
+      retryAfterSeconds: Math.ceil((existing.lockedUntil - now) / 1000)
+    };
   }
-  
-  if (Date.now() > stored.expires) {
-    otpStore.delete(email.toLowerCase());
-    return false; // OTP expired
+  if (existing && now - existing.sentAt < cooldownMs) {
+    return {
+      sent: false,
+      code: 'OTP_COOLDOWN',
+      error: 'A code was sent moments ago. Please wait before requesting another.',
+      retryAfterSeconds: Math.ceil((existing.sentAt + cooldownMs - now) / 1000)
+    };
   }
-  
-  if (stored.otp !== providedOTP) {
-    return false; // OTP doesn't match
+
+  const [recipientRetry, ipRetry] = await Promise.all([
+    consumeThrottle(`recipient:${recipient.trim().toLowerCase()}`, readLimit('OTP_EMAIL_REQUESTS_PER_HOUR', DEFAULT_EMAIL_REQUESTS_PER_HOUR)),
+    consumeThrottle(`ip:${clientIp}`, readLimit('OTP_IP_REQUESTS_PER_HOUR', DEFAULT_IP_REQUESTS_PER_HOUR))
+  ]);
+  if (recipientRetry > 0 || ipRetry > 0) {
+    return {
+      sent: false,
+      code: 'OTP_RATE_LIMITED',
+      error: 'Too many verification codes requested. Please try again later.',
+      retryAfterSeconds: Math.max(recipientRetry, ipRetry)
+    };
   }
-  
-  // OTP is valid, remove it from store
-  otpStore.delete(email.toLowerCase());
-  return true;
+
+  const code = generateOTP();
+  const salt = randomBytes(16).toString('hex');
+  await store.update<OtpRecord>(key, () => ({
+    codeHash: hashCode(secret, code, salt),
+    salt,
+    expiresAt: now + OTP_EXPIRATION_MINUTES * 60 * 1000,
+    sentAt: now,
+    attempts: 0
+  }));
+
+  return { sent: true, code, expiresInMinutes: OTP_EXPIRATION_MINUTES };
 }
 
 /**
- * Send OTP via email (simplified version)
- * In production, use a proper email service like SendGrid, AWS SES, etc.
+ * Drop an issued code, e.g. when it couldn't be delivered, so the resend cooldown doesn't apply
  */
-export async function sendOTPEmail(email: string, otp: string): Promise<boolean> {
-  try {
-    // For demonstration - in production, integrate with email service
-    console.log(`OTP for ${email}: ${otp}`);
-    
-    // Simulate email sending delay
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    // In production, you would do:
-    // const emailService = new SendGridService(); // or similar
-    // await emailService.send({
-    //   to: email,
-    //   subject: 'Your Team Registration OTP',
-    //   html: `Your OTP is: <strong>${otp}</strong>. Valid for 10 minutes.`
-    // });
-    
-    return true;
-  } catch (error) {
-    console.error('Failed to send OTP email:', error);
-    return false;
-  }
+export async function discardOTP(recipient: string, scope: string = ''): Promise<void> {
+  await getOtpStore().update<OtpRecord>(codeKey(recipient, scope), current =>
+    current && current.lockedUntil ? current : null
+  );
 }
 
 /**
- * Alternative: Free SMS services (limited but possible)
- * Some options for free/low-cost SMS:
- * 1. Twilio (free trial with credits)
- * 2. TextBelt (free tier: 1 SMS per day per phone number)
- * 3. SMS Gateway APIs with free tiers
+ * Verify OTP
+ * A correct code is consumed; wrong guesses count towards the lockout
  */
-export async function sendOTPSMS(phoneNumber: string, otp: string): Promise<boolean> {
+export async function verifyOTP(recipient: string, providedOTP: string, scope: string = ''): Promise<OtpVerifyResult> {
+  const secret = getHashSecret();
+  const now = Date.now();
+  const maxAttempts = readLimit('OTP_MAX_ATTEMPTS', DEFAULT_MAX_ATTEMPTS);
+  const lockoutMs = readLimit('OTP_LOCKOUT_MINUTES', DEFAULT_LOCKOUT_MINUTES) * 60 * 1000;
+  let result: OtpVerifyResult = { valid: false, code: 'OTP_INVALID', error: '' };
+
+  await getOtpStore().update<OtpRecord>(codeKey(recipient, scope), current => {
+    if (current && current.lockedUntil && current.lockedUntil > now) {
+      result = {
+        valid: false,
+        code: 'OTP_LOCKED',
+        error: 'Too many wrong codes. Please wait before requesting a new one.',
+        retryAfterSeconds: Math.ceil((current.lockedUntil - now) / 1000)
+      };
+      return current;
+    }
+
+    if (!current || !current.codeHash || now > current.expiresAt) {
+      result = { valid: false, code: 'OTP_EXPIRED', error: 'No active code for this recipient. Please request a new one.' };
+      return current;
+    }
+
+    if (hashesMatch(current.codeHash, hashCode(secret, providedOTP.trim(), current.salt))) {
+      result = { valid: true };
+      return null; // OTP is valid, remove it from store
+    }
+
+    const attempts = current.attempts + 1;
+    if (attempts >= maxAttempts) {
+      // Burn the code so the remaining guesses can't be spent on it after the lockout
+      result = {
+        valid: false,
+        code: 'OTP_LOCKED',
+        error: 'Too many wrong codes. Please wait before requesting a new one.',
+        retryAfterSeconds: Math.ceil(lockoutMs / 1000)
+      };
+      return { codeHash: '', salt: '', expiresAt: now, sentAt: current.sentAt, attempts, lockedUntil: now + lockoutMs };
+    }
+
+    result = {
+      valid: false,
+      code: 'OTP_INVALID',
+      error: `Incorrect code. ${maxAttempts - attempts} attempt(s) left.`
+    };
+    return { ...current, attempts };
+  });
+
+  return result;
+}
+
+/**
+ * Send OTP via email
+ * Uses the emails/otp template and the configured transport (see lib/email.ts)
+ */
+export async function sendOTPEmail(email: string, otp: string, eventName: string = DEFAULT_EVENT_NAME): Promise<boolean> {
   try {
-    // Example using TextBelt free API (1 SMS per day limit)
-    const response = await fetch('https://textbelt.com/text', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        phone: phoneNumber,
-        message: `Your AR Treasure Hunt OTP: ${otp}. Valid for 10 minutes.`,
-        key: 'textbelt' // free tier key
-      })
+    const message = await renderEmailTemplate('otp', email, {
+      otp,
+      eventName,
+      expiresInMinutes: OTP_EXPIRATION_MINUTES
     });
-    
-    const result = await response.json();
-    return result.success === true;
+    return await sendEmail(message);
   } catch (error) {
-    console.error('Failed to send OTP SMS:', error);
+    console.error('Failed to send OTP email:', error);
     return false;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Send OTP via SMS
+ * Uses the configured SMS provider (see lib/sms.ts); the result carries the delivery ID for tracking
+ */
+export async function sendOTPSMS(phoneNumber: string, otp: string, eventName: string = DEFAULT_EVENT_NAME): Promise<SmsSendResult> {
+  return sendSms(phoneNumber, `Your code for ${eventName}: ${otp}. Valid for ${OTP_EXPIRATION_MINUTES} minutes.`);
+}
@@ -0,0 +1,86 @@
+// OTP storage
+// Codes and throttle counters live in an OtpStore so they survive serverless cold starts.
+// The database store is the default; the in-memory store suits local runs and tests.
+
+import { ref, get, runTransaction } from 'firebase/database';
+import { db, ensureAuth } from './firebase';
+
+// Root node for OTP records (hashed codes and request counters)
+export const OTP_NODE = 'otp';
+
+export interface OtpStore {
+  get<T>(key: string): Promise<T | null>;
+
+  /**
+   * Atomically read-modify-write one record
+   * The updater gets the current value (null when absent) and returns the new one,
+   * or null to delete it. It may run more than once, so it must not have side effects
+   * beyond recording its own result. Resolves with the value that was stored.
+   */
+  update<T>(key: string, updater: (current: T | null) => T | null): Promise<T | null>;
+}
+
+/**
+ * Store backed by the Realtime Database (one transaction per update)
+ */
+export function createDatabaseOtpStore(): OtpStore {
+  return {
+    async get<T>(key: string) {
+      await ensureAuth();
+      const snapshot = await get(ref(db, `${OTP_NODE}/${key}`));
+      return snapshot.exists() ? snapshot.val() as T : null;
+    },
+
+    async update<T>(key: string, updater: (current: T | null) => T | null) {
+      await ensureAuth();
+      const result = await runTransaction(ref(db, `${OTP_NODE}/${key}`), (current: T | null) => updater(current));
+      return result.snapshot.exists() ? result.snapshot.val() as T : null;
+    }
+  };
+}
+
+/**
+ * Store that keeps records in process memory
+ * Only safe for a single long-running process - codes are lost on restart
+ */
+export function createMemoryOtpStore(): OtpStore {
+  const records: Record<string, unknown> = {};
+
+  return {
+    async get<T>(key: string) {
+      return key in records ? records[key] as T : null;
+    },
+
+    async update<T>(key: string, updater: (current: T | null) => T | null) {
+      const next = updater(key in records ? records[key] as T : null);
+      if (next === null) {
+        delete records[key];
+      } else {
+        records[key] = next;
+      }
+      return next;
+    }
+  };
+}
+
+let activeStore: OtpStore | null = null;
+
+/**
+ * Get the OTP store used by the app
+ * OTP_STORE=memory or database picks one explicitly; otherwise it follows STORAGE_BACKEND
+ */
+export function getOtpStore(): OtpStore {
+  if (!activeStore) {
+    const backend = process.env.OTP_STORE || (process.env.STORAGE_BACKEND === 'memory' ? 'memory' : 'database');
+    activeStore = backend === 'memory' ? createMemoryOtpStore() : createDatabaseOtpStore();
+  }
+  return activeStore;
+}
+
+/**
+ * Swap the OTP store, e.g. for a fresh in-memory store per test
+ * Pass null to go back to the default on next use
+ */
+export function setOtpStore(store: OtpStore | null): void {
+  activeStore = store;
+}
@@ -0,0 +1,50 @@
+// Phone number handling
+// Numbers are normalized to E.164 (+<country code><number>) before anything is sent to them
+
+// Country code assumed for numbers entered without one, e.g. "91" or "1"
+// Inlined at build time (see next.config.js), so the registration form and the API agree
+const DEFAULT_COUNTRY_CODE = process.env.DEFAULT_PHONE_COUNTRY_CODE || '';
+
+/**
+ * Normalize a phone number to E.164, or return null if it can't be
+ * Accepts common formatting (spaces, dashes, dots, parentheses), a 00 international prefix and a
+ * trunk (0) after the country code, as in +44 (0) 7911 123456.
+ * Numbers without a country code only work when DEFAULT_PHONE_COUNTRY_CODE is set.
+ */
+export function normalizePhoneNumber(raw: string, defaultCountryCode: string = DEFAULT_COUNTRY_CODE): string | null {
+  const trimmed = raw.trim();
+  if (!/^[+\d\s\-().]+$/.test(trimmed)) {
+    return null;
+  }
+
+  const hasPlus = trimmed.charAt(0) === '+';
+  let digits = (hasPlus ? trimmed.replace(/\(0\)/, '') : trimmed).replace(/\D/g, '');
+
+  if (!hasPlus && digits.indexOf('00') === 0) {
+    digits = digits.slice(2); // International dialling prefix
+  } else if (!hasPlus) {
+    const countryCode = defaultCountryCode.replace(/\D/g, '');
+    if (!countryCode) {
+      return null; // Ambiguous without a country code
+    }
+    // Drop a national trunk prefix (e.g. 0 in 07911 123456)
+    digits = countryCode + digits.replace(/^0+/, '');
+  }
+
+  // E.164 allows at most 15 digits; country codes never start with 0
+  if (!/^[1-9]\d{7,14}$/.test(digits)) {
+    return null;
+  }
+
+  return `+${digits}`;
+}
+
+/**
+ * Mask a number for display in responses and logs, e.g. +91******3210
+ */
+export function maskPhoneNumber(phoneNumber: string): string {
+  if (phoneNumber.length <= 7) {
+    return phoneNumber;
+  }
+  return phoneNumber.slice(0, 3) + phoneNumber.slice(3, -4).replace(/\d/g, '*') + phoneNumber.slice(-4);
+}
@@ -0,0 +1,123 @@
+// Registration schema
+// The one set of rules for the registration fields, used by the form on the index page and
+// by /api/v1/register. Keep this file free of server-only imports so the page can bundle it.
+
+import { normalizePhoneNumber } from './phone';
+
+export type RegistrationField = 'teamName' | 'player1' | 'player2' | 'email' | 'phoneNumber' | 'otp';
+
+export interface FieldRule {
+  label: string;
+  required: boolean;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: RegExp;
+  isValid?: (value: string) => boolean; // Checks a pattern can't express, after `pattern`
+  patternMessage?: string; // Shown when the value fails `pattern` or `isValid`
+}
+
+// NOT_ALLOWED is only raised by the API (e.g. a blocklisted team name)
+export type FieldErrorCode = 'REQUIRED' | 'INVALID_TYPE' | 'TOO_SHORT' | 'TOO_LONG' | 'INVALID_FORMAT' | 'NOT_ALLOWED';
+
+export interface FieldError {
+  field: RegistrationField;
+  code: FieldErrorCode;
+  message: string;
+}
+
+// Trimmed field values; the code is an empty string when absent
+export type RegistrationInput = Record<RegistrationField, string>;
+
+export const TEAM_NAME_MIN_LENGTH = 2;
+export const TEAM_NAME_MAX_LENGTH = 30;
+
+export const REGISTRATION_SCHEMA: Record<RegistrationField, FieldRule> = {
+  teamName: {
+    label: 'Team name',
+    required: true,
+    minLength: TEAM_NAME_MIN_LENGTH,
+    maxLength: TEAM_NAME_MAX_LENGTH
+  },
+  player1: {
+    label: 'Player 1 name',
+    required: true,
+    maxLength: 50
+  },
+  player2: {
+    label: 'Player 2 name',
+    required: true,
+    maxLength: 50
+  },
+  email: {
+    label: 'Email',
+    required: true,
+    maxLength: 254,
+    pattern: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+    patternMessage: 'Please enter a valid email address'
+  },
+  phoneNumber: {
+    label: 'Phone number',
+    required: true,
+    // Characters only; whether the number can be converted to E.164 is up to lib/phone.ts
+    pattern: /^\+?[\d\s\-().]+$/,
+    isValid: value => normalizePhoneNumber(value) !== null,
+    patternMessage: 'Invalid phone number. Include the country code, e.g. +14155550123.'
+  },
+  // Only sent in the second registration step; Unity sends an empty string until then
+  otp: {
+    label: 'Verification code',
+    required: false,
+    pattern: /^\d{6}$/,
+    patternMessage: 'Verification code must be 6 digits'
+  }
+};
+
+export const REGISTRATION_FIELDS = Object.keys(REGISTRATION_SCHEMA) as RegistrationField[];
+
+/**
+ * Check one value against its rule
+ * Returns the first problem found, or null if the value is fine
+ */
+export function validateField(field: RegistrationField, raw: unknown): FieldError | null {
+  const rule = REGISTRATION_SCHEMA[field];
+
+  if (raw !== undefined && raw !== null && typeof raw !== 'string') {
+    return { field, code: 'INVALID_TYPE', message: `${rule.label} must be text` };
+  }
+
+  const value = typeof raw === 'string' ? raw.trim() : '';
+
+  if (!value) {
+    return rule.required ? { field, code: 'REQUIRED', message: `${rule.label} is required` } : null;
+  }
+  if (rule.minLength !== undefined && value.length < rule.minLength) {
+    return { field, code: 'TOO_SHORT', message: `${rule.label} must be at least ${rule.minLength} characters` };
+  }
+  if (rule.maxLength !== undefined && value.length > rule.maxLength) {
+    return { field, code: 'TOO_LONG', message: `${rule.label} must be at most ${rule.maxLength} characters` };
+  }
+  if ((rule.pattern && !rule.pattern.test(value)) || (rule.isValid && !rule.isValid(value))) {
+    return { field, code: 'INVALID_FORMAT', message: rule.patternMessage || `${rule.label} is invalid` };
+  }
+  return null;
+}
+
+/**
+ * Validate a registration (form state or request body)
+ * Returns the trimmed values and one error per invalid field, in form order
+ */
+export function validateRegistration(input: Record<string, unknown>): { values: RegistrationInput; errors: FieldError[] } {
+  const values = {} as RegistrationInput;
+  const errors: FieldError[] = [];
+
+  REGISTRATION_FIELDS.forEach(field => {
+    const raw = input[field];
+    values[field] = typeof raw === 'string' ? raw.trim() : '';
+    const error = validateField(field, raw);
+    if (error) {
+      errors.push(error);
+    }
+  });
+
+  return { values, errors };
+}
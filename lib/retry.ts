@@ -0,0 +1,81 @@
+// Retry utilities
+// Wraps database writes that can fail transiently (dropped connections, timeouts)
+
+import { ApiError } from './errors';
+
+export interface RetryOptions {
+  attempts?: number; // Total attempts including the first one
+  baseDelayMs?: number; // Delay before the first retry, doubled after each failure
+  maxDelayMs?: number; // Upper bound for a single delay
+  shouldRetry?: (error: unknown) => boolean;
+}
+
+// Default policy used for score writes
+export const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  attempts: 4,
+  baseDelayMs: 100,
+  maxDelayMs: 2000,
+  shouldRetry: isTransientError
+};
+
+/**
+ * Check whether an error is worth retrying
+ * Permission and validation failures will never succeed on a second attempt
+ */
+export function isTransientError(error: unknown): boolean {
+  // Typed API errors (team not found, name taken, ...) describe the request, not the connection
+  if (error instanceof ApiError) {
+    return false;
+  }
+
+  const message = (error instanceof Error ? error.message : String(error)).toLowerCase();
+
+  if (message.indexOf('permission_denied') !== -1 || message.indexOf('not found') !== -1) {
+    return false;
+  }
+
+  return (
+    message.indexOf('disconnect') !== -1 ||
+    message.indexOf('network') !== -1 ||
+    message.indexOf('timeout') !== -1 ||
+    message.indexOf('unavailable') !== -1 ||
+    message.indexOf('maxretry') !== -1
+  );
+}
+
+/**
+ * Wait for the given number of milliseconds
+ */
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Run an async operation, retrying transient failures with exponential backoff and jitter
+ * The operation must be safe to repeat - callers are responsible for idempotency
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> {
+  const policy = { ...DEFAULT_RETRY_OPTIONS, ...options };
+  let lastError: unknown;
+
+  for (let attempt = 1; attempt <= policy.attempts; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      lastError = error;
+
+      if (attempt === policy.attempts || !policy.shouldRetry(error)) {
+        break;
+      }
+
+      const backoff = Math.min(policy.baseDelayMs * Math.pow(2, attempt - 1), policy.maxDelayMs);
+      console.warn(`Attempt ${attempt} failed, retrying in ${backoff}ms:`, error);
+      await delay(backoff / 2 + Math.random() * backoff / 2);
+    }
+  }
+
+  throw lastError;
+}
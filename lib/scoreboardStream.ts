@@ -0,0 +1,258 @@
+// Scoreboard stream
+// Fans one scoreboard subscription per event out to every client of GET /api/v1/scoreboard/stream,
+// so displays get pushed updates instead of each polling /api/v1/scoreboard.
+// Only the public scoreboard node is read, and payloads carry public fields only.
+//
+// Every update is numbered and the most recent ones are kept, so a client reconnecting with
+// Last-Event-ID gets exactly what it missed. IDs start with a random stream ID, so an ID from
+// an earlier stream (or another server instance) is recognised as unknown and answered with a
+// fresh snapshot instead.
+//
+// If the database listener fails, clients keep the last snapshot and get a `stream-error` event
+// until the stream has resubscribed.
+
+import { randomBytes } from 'crypto';
+import { subscribeToScoreboard, type PublicTeam } from './firestore';
+import {
+  toV1ScoreboardTeam,
+  type V1ScoreboardSnapshot,
+  type V1ScoreChangeEvent,
+  type V1StreamHeartbeat,
+  type V1StreamError
+} from './apiV1';
+
+// How many updates are kept per event for clients resuming with Last-Event-ID
+const HISTORY_SIZE = 200;
+
+// How long a stream outlives its last listener, so a client reconnecting after a drop
+// (EventSource waits 3 seconds) can still resume from its history
+export const STREAM_GRACE_MS = 60000;
+
+// How long a stream waits before resubscribing after its database listener failed
+export const RESUBSCRIBE_DELAY_MS = 5000;
+
+// Numbered updates, kept in the history for resuming clients
+type StreamUpdate =
+  | { id: string; event: 'scoreboard'; data: V1ScoreboardSnapshot }
+  | { id: string; event: 'score'; data: V1ScoreChangeEvent };
+
+// Errors carry no ID, so a client's Last-Event-ID still points at the last update it received.
+// Not named `error`, which EventSource uses for its own connection errors.
+export type ScoreboardStreamEvent =
+  | StreamUpdate
+  | { id?: undefined; event: 'stream-error'; data: V1StreamError };
+
+type SnapshotEvent = Extract<StreamUpdate, { event: 'scoreboard' }>;
+
+type StreamListener = (event: ScoreboardStreamEvent) => void;
+
+interface EventStream {
+  streamId: string;
+  sequence: number;
+  history: StreamUpdate[]; // Oldest first
+  snapshot: SnapshotEvent | null; // Latest `scoreboard` event, null until the first update
+  scores: Record<number, number>; // Last known score by team number
+  error: V1StreamError | null; // Set while the database listener is down
+  listeners: StreamListener[];
+  unsubscribe: () => void;
+  closeTimer: ReturnType<typeof setTimeout> | null; // Set while the stream has no listeners
+  retryTimer: ReturnType<typeof setTimeout> | null; // Set while waiting to resubscribe
+}
+
+// Open streams by event ID; a stream is dropped STREAM_GRACE_MS after its last listener leaves
+const streams: Record<string, EventStream> = {};
+
+/**
+ * Format one Server-Sent Event
+ * Events without an ID (heartbeats) leave the client's Last-Event-ID unchanged.
+ */
+export function formatServerSentEvent(event: string, data: unknown, id?: string): string {
+  return `${id ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Heartbeat payload
+ */
+export function createHeartbeat(): V1StreamHeartbeat {
+  return { time: new Date().toISOString() };
+}
+
+/**
+ * Record an update and pass it to every listener
+ */
+function publish(stream: EventStream, event: StreamUpdate): void {
+  stream.history.push(event);
+  if (stream.history.length > HISTORY_SIZE) {
+    stream.history.shift();
+  }
+  if (event.event === 'scoreboard') {
+    stream.snapshot = event;
+  }
+  stream.listeners.forEach(listener => listener(event));
+}
+
+function nextId(stream: EventStream): string {
+  stream.sequence += 1;
+  return `${stream.streamId}-${stream.sequence}`;
+}
+
+/**
+ * Turn a new ranked scoreboard into `score` events for every changed team, then a `scoreboard` event
+ * The first scoreboard of a stream only sets the baseline, and unchanged scoreboards are skipped
+ * (except the first one after an error, which tells clients the stream is live again).
+ */
+function handleScoreboard(stream: EventStream, ranked: PublicTeam[]): void {
+  const teams = ranked.map(toV1ScoreboardTeam);
+
+  if (!stream.error && stream.snapshot && JSON.stringify(stream.snapshot.data.teams) === JSON.stringify(teams)) {
+    return;
+  }
+  stream.error = null;
+
+  if (stream.snapshot) {
+    teams.forEach(team => {
+      const previousScore = stream.scores[team.teamNumber];
+      if (previousScore !== undefined && previousScore !== team.score) {
+        publish(stream, {
+          id: nextId(stream),
+          event: 'score',
+          data: {
+            teamName: team.teamName,
+            teamNumber: team.teamNumber,
+            score: team.score,
+            previousScore,
+            change: team.score - previousScore,
+            rank: team.rank
+          }
+        });
+      }
+    });
+  }
+
+  stream.scores = {};
+  teams.forEach(team => {
+    stream.scores[team.teamNumber] = team.score;
+  });
+
+  publish(stream, {
+    id: nextId(stream),
+    event: 'scoreboard',
+    data: { teams, totalTeams: teams.length, lastUpdated: new Date().toISOString() }
+  });
+}
+
+/**
+ * Tell listeners the database listener failed, keeping the last snapshot, and resubscribe later
+ */
+function handleError(eventId: string, stream: EventStream, error: Error): void {
+  console.error(`Scoreboard stream for ${eventId} lost its database listener:`, error);
+  stream.unsubscribe();
+  stream.unsubscribe = () => {};
+  stream.error = {
+    error: 'Live updates are interrupted; the last known scoreboard is still shown',
+    time: new Date().toISOString()
+  };
+  const event: ScoreboardStreamEvent = { event: 'stream-error', data: stream.error };
+  stream.listeners.forEach(listener => listener(event));
+
+  if (!stream.retryTimer) {
+    stream.retryTimer = setTimeout(() => {
+      stream.retryTimer = null;
+      if (streams[eventId] === stream) {
+        subscribe(eventId, stream);
+      }
+    }, RESUBSCRIBE_DELAY_MS);
+  }
+}
+
+/**
+ * Subscribe a stream to its event's scoreboard
+ */
+function subscribe(eventId: string, stream: EventStream): void {
+  stream.unsubscribe = subscribeToScoreboard(
+    eventId,
+    teams => handleScoreboard(stream, teams),
+    error => handleError(eventId, stream, error)
+  );
+}
+
+/**
+ * Updates a client resuming from lastEventId missed
+ * Unknown or expired IDs get the latest snapshot, which is all a client needs to catch up.
+ */
+function missedEvents(stream: EventStream, lastEventId: string | null): StreamUpdate[] {
+  const prefix = `${stream.streamId}-`;
+
+  if (lastEventId && lastEventId.indexOf(prefix) === 0) {
+    const sequence = Number(lastEventId.slice(prefix.length));
+    const oldest = stream.history.length > 0 ? Number(stream.history[0].id.slice(prefix.length)) : Infinity;
+
+    // Resumable only if nothing after lastEventId has dropped out of the history
+    if (sequence >= oldest - 1 && sequence <= stream.sequence) {
+      return stream.history.filter(event => Number(event.id.slice(prefix.length)) > sequence);
+    }
+  }
+
+  return stream.snapshot ? [stream.snapshot] : [];
+}
+
+/**
+ * Start receiving an event's scoreboard updates
+ * The listener first gets what it missed since lastEventId (or the current snapshot) and any
+ * ongoing error, then every update as it happens. Returns a function that stops the updates.
+ */
+export function openScoreboardStream(
+  eventId: string,
+  lastEventId: string | null,
+  listener: StreamListener
+): () => void {
+  let stream = streams[eventId];
+
+  if (!stream) {
+    const created: EventStream = {
+      streamId: randomBytes(6).toString('hex'),
+      sequence: 0,
+      history: [],
+      snapshot: null,
+      scores: {},
+      error: null,
+      listeners: [],
+      unsubscribe: () => {},
+      closeTimer: null,
+      retryTimer: null
+    };
+    stream = created;
+    streams[eventId] = created;
+    // Registered before subscribing: the in-memory store calls back straight away
+    subscribe(eventId, created);
+  }
+
+  const opened = stream;
+  if (opened.closeTimer) {
+    clearTimeout(opened.closeTimer);
+    opened.closeTimer = null;
+  }
+  missedEvents(opened, lastEventId).forEach(listener);
+  if (opened.error) {
+    listener({ event: 'stream-error', data: opened.error });
+  }
+  opened.listeners.push(listener);
+
+  return () => {
+    opened.listeners = opened.listeners.filter(other => other !== listener);
+
+    if (opened.listeners.length === 0 && !opened.closeTimer && streams[eventId] === opened) {
+      opened.closeTimer = setTimeout(() => {
+        opened.closeTimer = null;
+        if (opened.listeners.length === 0 && streams[eventId] === opened) {
+          if (opened.retryTimer) {
+            clearTimeout(opened.retryTimer);
+            opened.retryTimer = null;
+          }
+          opened.unsubscribe();
+          delete streams[eventId];
+        }
+      }, STREAM_GRACE_MS);
+    }
+  };
+}
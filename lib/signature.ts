@@ -0,0 +1,173 @@
+// Request signing for the Unity client
+// Game requests carry an HMAC-SHA256 signature over the timestamp, method, path
+// and raw body, computed with a secret shared between the server and the game build
+
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import type { NextApiRequest } from 'next';
+import { getTeamRepository } from './teamRepository';
+import { pruneExpiredKeys } from './expiringKeys';
+
+export const SIGNATURE_HEADER = 'x-signature';
+export const TIMESTAMP_HEADER = 'x-signature-timestamp';
+
+// Root node remembering recently used signatures (no teamName, so team scans skip it)
+export const SIGNATURE_NONCES_NODE = 'signatureNonces';
+
+// Requests older or newer than this are rejected outright
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+export type SignatureErrorCode =
+  | 'SIGNATURE_MISSING'
+  | 'SIGNATURE_INVALID'
+  | 'SIGNATURE_EXPIRED'
+  | 'SIGNATURE_REPLAYED';
+
+export type SignatureCheck =
+  | { valid: true }
+  | { valid: false; code: SignatureErrorCode; error: string };
+
+let warnedUnsigned = false;
+
+/**
+ * Read the tolerance window from the environment
+ */
+function getToleranceSeconds(): number {
+  const seconds = Number(process.env.SIGNATURE_TOLERANCE_SECONDS);
+  return seconds > 0 ? seconds : DEFAULT_TOLERANCE_SECONDS;
+}
+
+/**
+ * Compute the signature for a request
+ * The signed string is `timestamp\nMETHOD\npath\nbody`, so a signature can't be
+ * moved to another endpoint or attached to a different body
+ */
+export function computeSignature(
+  secret: string,
+  timestamp: string,
+  method: string,
+  path: string,
+  body: string
+): string {
+  return createHmac('sha256', secret)
+    .update(`${timestamp}\n${method.toUpperCase()}\n${path}\n${body}`)
+    .digest('hex');
+}
+
+/**
+ * Read the unparsed request body
+ * Signed routes disable Next's body parser because the signature covers the exact bytes sent
+ */
+export function readRawBody(req: NextApiRequest): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk: string) => {
+      data += chunk;
+    });
+    req.on('end', () => resolve(data));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Parse a raw JSON body, treating an empty body as an empty object
+ * The result is unchecked client input, so callers validate each field they read
+ */
+export function parseJsonBody(rawBody: string): unknown {
+  return rawBody.trim() ? JSON.parse(rawBody) : {};
+}
+
+/**
+ * Compare two hex signatures without leaking timing information
+ */
+function signaturesMatch(expected: string, provided: string): boolean {
+  const expectedBuffer = Buffer.from(expected, 'hex');
+  const providedBuffer = Buffer.from(provided, 'hex');
+  return expectedBuffer.length === providedBuffer.length && timingSafeEqual(expectedBuffer, providedBuffer);
+}
+
+/**
+ * Remember a signature so the same request can't be replayed
+ * Returns false when the signature was already used inside the tolerance window.
+ * Nonces are only needed for that window, so expired ones are pruned as new ones arrive.
+ */
+async function rememberSignature(signature: string, toleranceSeconds: number): Promise<boolean> {
+  const hash = createHash('sha256').update(signature).digest('hex');
+
+  // Twice the tolerance covers timestamps skewed into the future as well as the past
+  const claim = await getTeamRepository().claimExpiringKey(SIGNATURE_NONCES_NODE, hash, {
+    expiresAt: Date.now() + toleranceSeconds * 2 * 1000
+  });
+  pruneExpiredKeys(SIGNATURE_NONCES_NODE);
+
+  return claim.claimed;
+}
+
+/**
+ * Check whether signing was explicitly turned off (SIGNATURE_REQUIRED=false, for local development)
+ */
+function isSigningDisabled(): boolean {
+  return process.env.SIGNATURE_REQUIRED === 'false';
+}
+
+/**
+ * Verify the signature headers on a request
+ * Without UNITY_SIGNING_SECRET every signed route fails closed, unless signing was
+ * turned off with SIGNATURE_REQUIRED=false so local development works without a secret.
+ */
+export async function verifySignedRequest(req: NextApiRequest, rawBody: string): Promise<SignatureCheck> {
+  const secret = process.env.UNITY_SIGNING_SECRET;
+
+  if (!secret) {
+    if (!isSigningDisabled()) {
+      throw new Error('UNITY_SIGNING_SECRET is not set - signed requests are refused (set SIGNATURE_REQUIRED=false to skip signing in development)');
+    }
+    if (!warnedUnsigned) {
+      console.warn('SIGNATURE_REQUIRED=false - request signatures are not being verified. Never use this in production.');
+      warnedUnsigned = true;
+    }
+    return { valid: true };
+  }
+
+  const signatureHeader = req.headers[SIGNATURE_HEADER];
+  const timestampHeader = req.headers[TIMESTAMP_HEADER];
+  const signature = Array.isArray(signatureHeader) ? signatureHeader[0] : signatureHeader;
+  const timestamp = Array.isArray(timestampHeader) ? timestampHeader[0] : timestampHeader;
+
+  if (!signature || !timestamp) {
+    return {
+      valid: false,
+      code: 'SIGNATURE_MISSING',
+      error: `Missing ${SIGNATURE_HEADER} or ${TIMESTAMP_HEADER} header`
+    };
+  }
+
+  const toleranceSeconds = getToleranceSeconds();
+  const timestampSeconds = Number(timestamp);
+  if (!isFinite(timestampSeconds) || Math.abs(Date.now() / 1000 - timestampSeconds) > toleranceSeconds) {
+    return {
+      valid: false,
+      code: 'SIGNATURE_EXPIRED',
+      error: `Request timestamp is missing or more than ${toleranceSeconds} seconds from server time`
+    };
+  }
+
+  const expected = computeSignature(secret, timestamp, req.method || 'GET', req.url || '', rawBody);
+  if (!/^[0-9a-f]+$/i.test(signature) || !signaturesMatch(expected, signature)) {
+    return {
+      valid: false,
+      code: 'SIGNATURE_INVALID',
+      error: 'Request signature does not match'
+    };
+  }
+
+  if (!(await rememberSignature(signature, toleranceSeconds))) {
+    return {
+      valid: false,
+      code: 'SIGNATURE_REPLAYED',
+      error: 'This signed request has already been used. Sign each attempt with a fresh timestamp.'
+    };
+  }
+
+  return { valid: true };
+}
@@ -0,0 +1,220 @@
+// SMS delivery
+// Text messages go through an SmsProvider: TextBelt with the deployment's own key, or
+// the mock provider that records messages locally for development and tests.
+// Every send is tracked for a day so its delivery status can be looked up afterwards.
+
+import { createHash, randomBytes } from 'crypto';
+import { getTeamRepository } from './teamRepository';
+import { pruneExpiredKeys } from './expiringKeys';
+import { normalizePhoneNumber, maskPhoneNumber } from './phone';
+
+// Root node holding tracked deliveries (expiring keys, pruned as new ones are written)
+export const SMS_DELIVERIES_NODE = 'smsDeliveries';
+
+// How long a delivery can be looked up after it was sent
+const DELIVERY_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+export interface SmsMessage {
+  to: string; // E.164, e.g. +14155550123
+  body: string;
+}
+
+export type SmsDeliveryStatus = 'queued' | 'sent' | 'delivered' | 'failed' | 'unknown';
+
+export interface SmsSendResult {
+  messageId: string | null; // Provider's ID, null when the provider rejected the message
+  status: SmsDeliveryStatus;
+  error?: string;
+}
+
+export interface SmsProvider {
+  name: string;
+  send(message: SmsMessage): Promise<SmsSendResult>;
+  getStatus(messageId: string): Promise<SmsDeliveryStatus>;
+}
+
+// Tracked delivery, stored under SMS_DELIVERIES_NODE
+export interface SmsDelivery {
+  messageId: string;
+  provider: string;
+  to: string; // Masked
+  status: SmsDeliveryStatus;
+  sentAt: number;
+  updatedAt: number;
+  expiresAt: number; // sentAt + DELIVERY_RETENTION_MS
+  error?: string;
+}
+
+// Statuses that won't change any more, so the provider isn't asked again
+const FINAL_STATUSES: SmsDeliveryStatus[] = ['delivered', 'failed'];
+
+const TEXTBELT_URL = 'https://textbelt.com';
+
+/**
+ * Provider for the TextBelt HTTP API
+ * Needs a paid key; the shared free "textbelt" key allows one message per day in total
+ */
+export function createTextBeltProvider(apiKey: string): SmsProvider {
+  // TextBelt status values mapped to ours
+  const statusMap: Record<string, SmsDeliveryStatus> = {
+    DELIVERED: 'delivered',
+    SENT: 'sent',
+    SENDING: 'queued',
+    FAILED: 'failed',
+    UNKNOWN: 'unknown'
+  };
+
+  return {
+    name: 'textbelt',
+
+    async send(message) {
+      const response = await fetch(`${TEXTBELT_URL}/text`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ phone: message.to, message: message.body, key: apiKey })
+      });
+      const result = await response.json();
+
+      if (result.success !== true) {
+        return { messageId: null, status: 'failed', error: result.error || 'TextBelt rejected the message' };
+      }
+      return { messageId: String(result.textId), status: 'queued' };
+    },
+
+    async getStatus(messageId) {
+      const response = await fetch(`${TEXTBELT_URL}/status/${encodeURIComponent(messageId)}`);
+      const result = await response.json();
+      return statusMap[result.status] || 'unknown';
+    }
+  };
+}
+
+/**
+ * Provider that records messages instead of sending them (development and tests)
+ * Messages are logged and kept in `sent`; every message counts as delivered.
+ */
+export function createMockSmsProvider(): SmsProvider & { sent: Array<SmsMessage & { messageId: string }> } {
+  const sent: Array<SmsMessage & { messageId: string }> = [];
+
+  return {
+    name: 'mock',
+    sent,
+
+    async send(message) {
+      // Random so IDs stay unique across restarts when deliveries are stored in the database
+      const messageId = `mock-${randomBytes(8).toString('hex')}`;
+      sent.push({ ...message, messageId });
+      console.log(`📱 SMS to ${message.to}: ${message.body}`);
+      return { messageId, status: 'delivered' };
+    },
+
+    async getStatus(messageId) {
+      return sent.some(message => message.messageId === messageId) ? 'delivered' : 'unknown';
+    }
+  };
+}
+
+let activeProvider: SmsProvider | null = null;
+
+/**
+ * Get the provider used by the app
+ * SMS_PROVIDER=textbelt or mock picks one explicitly; otherwise TextBelt is used when TEXTBELT_API_KEY is set.
+ * In production the mock is never picked implicitly: without a key, sending fails instead of
+ * reporting codes as sent that nobody received.
+ */
+export function getSmsProvider(): SmsProvider {
+  if (!activeProvider) {
+    const provider = process.env.SMS_PROVIDER || (process.env.TEXTBELT_API_KEY ? 'textbelt' : '');
+
+    if (provider === 'textbelt') {
+      if (!process.env.TEXTBELT_API_KEY) {
+        throw new Error('SMS_PROVIDER is "textbelt" but TEXTBELT_API_KEY is not set');
+      }
+      activeProvider = createTextBeltProvider(process.env.TEXTBELT_API_KEY);
+    } else {
+      if (!provider && process.env.NODE_ENV === 'production') {
+        throw new Error('TEXTBELT_API_KEY is not set - no SMS provider is configured (set SMS_PROVIDER=mock to log texts instead)');
+      }
+      console.warn('⚠️  Using the mock SMS provider - texts are printed to the console, not sent. Set TEXTBELT_API_KEY to send them.');
+      activeProvider = createMockSmsProvider();
+    }
+  }
+  return activeProvider;
+}
+
+/**
+ * Swap the provider, e.g. to a fresh mock in a test
+ * Pass null to go back to the default on next use
+ */
+export function setSmsProvider(provider: SmsProvider | null): void {
+  activeProvider = provider;
+}
+
+function deliveryKey(messageId: string): string {
+  return createHash('sha256').update(messageId).digest('hex');
+}
+
+/**
+ * Send a text message to a phone number in any common format
+ * The number is normalized to E.164 first; unusable numbers fail without contacting the provider
+ */
+export async function sendSms(phoneNumber: string, body: string): Promise<SmsSendResult> {
+  const to = normalizePhoneNumber(phoneNumber);
+  if (!to) {
+    return { messageId: null, status: 'failed', error: 'Phone number must include a valid country code' };
+  }
+
+  let provider: SmsProvider;
+  let result: SmsSendResult;
+  try {
+    provider = getSmsProvider();
+    result = await provider.send({ to, body });
+  } catch (error) {
+    console.error('Failed to send SMS:', error);
+    return { messageId: null, status: 'failed', error: 'SMS provider unavailable' };
+  }
+
+  if (result.messageId) {
+    const now = Date.now();
+    const delivery: SmsDelivery = {
+      messageId: result.messageId,
+      provider: provider.name,
+      to: maskPhoneNumber(to),
+      status: result.status,
+      sentAt: now,
+      updatedAt: now,
+      expiresAt: now + DELIVERY_RETENTION_MS
+    };
+    await getTeamRepository().setExpiringKey(SMS_DELIVERIES_NODE, deliveryKey(result.messageId), delivery);
+    pruneExpiredKeys(SMS_DELIVERIES_NODE);
+  }
+
+  return result;
+}
+
+/**
+ * Look up a tracked message, refreshing its status from the provider until it is final
+ */
+export async function getSmsDelivery(messageId: string): Promise<SmsDelivery | null> {
+  const repository = getTeamRepository();
+  const delivery = await repository.getExpiringKey<SmsDelivery>(SMS_DELIVERIES_NODE, deliveryKey(messageId));
+
+  if (!delivery || FINAL_STATUSES.indexOf(delivery.status) !== -1) {
+    return delivery;
+  }
+
+  try {
+    const provider = getSmsProvider();
+    if (provider.name !== delivery.provider) {
+      return delivery; // Sent by a provider that is no longer configured
+    }
+
+    const status = await provider.getStatus(messageId);
+    const updated: SmsDelivery = { ...delivery, status, updatedAt: Date.now() };
+    await repository.setExpiringKey(SMS_DELIVERIES_NODE, deliveryKey(messageId), updated);
+    return updated;
+  } catch (error) {
+    console.error('Failed to refresh SMS delivery status:', error);
+    return delivery;
+  }
+}
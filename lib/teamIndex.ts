@@ -0,0 +1,235 @@
+// Unique team name and email indexes
+// Each event keeps teamIndex/names/{key} and teamIndex/emails/{key} pointing at the UID that
+// owns that name or email. Lookups are single-key reads, and registrations claim their
+// keys atomically, so two teams can never end up with the same name or email.
+
+import { getTeamRepository, type TeamRepository } from './teamRepository';
+import type { Team } from './firestore';
+import { canonicalTeamName } from './teamNames';
+import { canonicalizeEmail } from './emailAddress';
+import { NameTakenError, EmailTakenError, TeamIndexUnavailableError } from './errors';
+
+// Event child node holding both indexes and the time they were last rebuilt
+export const TEAM_INDEX_NODE = 'teamIndex';
+
+// Bumped whenever the key format changes; stored indexes then need an organizer rebuild
+export const TEAM_INDEX_VERSION = 3;
+
+// Root node of per-event rebuild locks (expiring keys, so a crashed rebuild can't hold one forever)
+export const TEAM_INDEX_LOCKS_NODE = 'teamIndexLocks';
+
+// Longest a rebuild may hold its lock
+export const REBUILD_LOCK_MS = 5 * 60 * 1000;
+
+// Wait after locking, so registrations that claimed keys just before the lock finish writing their teams
+export const REBUILD_DRAIN_MS = 5 * 1000;
+
+const REBUILD_HINT = 'Run POST /api/admin/rebuild-team-index for this event.';
+
+export type TeamIndexName = 'names' | 'emails';
+
+export type TeamIndexEntries = Record<TeamIndexName, Record<string, string>>;
+
+export interface TeamIndexMeta {
+  version: number;
+  builtAt: number;
+}
+
+export interface TeamIndexConflict {
+  index: TeamIndexName;
+  key: string;
+  uids: string[]; // Oldest team first - it keeps the index entry
+}
+
+export interface TeamIndexRebuildReport {
+  eventId: string;
+  teamCount: number;
+  names: number;
+  emails: number;
+  conflicts: TeamIndexConflict[];
+}
+
+/**
+ * Team names are unique in their canonical form (see lib/teamNames.ts)
+ */
+export function normalizeTeamName(teamName: string): string {
+  return canonicalTeamName(teamName);
+}
+
+/**
+ * Emails are unique in their canonical form (see lib/emailAddress.ts)
+ */
+export function normalizeEmail(email: string): string {
+  return canonicalizeEmail(email);
+}
+
+/**
+ * Encode a normalized value as a database key
+ * Keys can't contain . $ # [ ] / or control characters; percent-encoding removes all of them
+ */
+function toIndexKey(value: string): string {
+  return encodeURIComponent(value).replace(/\./g, '%2E');
+}
+
+export function teamNameKey(teamName: string): string {
+  return toIndexKey(normalizeTeamName(teamName));
+}
+
+export function emailKey(email: string): string {
+  return toIndexKey(normalizeEmail(email));
+}
+
+// Events whose index is known to exist, per repository (a test may swap the repository)
+let checkedRepository: TeamRepository | null = null;
+let checkedEvents: Record<string, boolean> = {};
+
+/**
+ * Check the event's index is usable before reading or claiming keys
+ * A new event with no teams starts an empty index. Rebuilding one that's missing or outdated replaces
+ * the whole index, which would race with concurrent claims, so that is left to the organizer route.
+ */
+async function ensureTeamIndex(eventId: string): Promise<void> {
+  const repository = getTeamRepository();
+  if (repository !== checkedRepository) {
+    checkedRepository = repository;
+    checkedEvents = {};
+  }
+  if (checkedEvents[eventId]) {
+    return;
+  }
+
+  const meta = await repository.getTeamIndexMeta(eventId);
+  if (!meta) {
+    if ((await repository.listTeams(eventId)).length > 0) {
+      throw new TeamIndexUnavailableError(`The team index for event "${eventId}" has not been built. ${REBUILD_HINT}`);
+    }
+    // Writes only the meta node, so a concurrent first registration's claims are kept
+    await repository.setTeamIndexMeta(eventId, { version: TEAM_INDEX_VERSION, builtAt: Date.now() });
+  } else if (meta.version !== TEAM_INDEX_VERSION) {
+    throw new TeamIndexUnavailableError(`The team index for event "${eventId}" is outdated. ${REBUILD_HINT}`);
+  }
+  checkedEvents[eventId] = true;
+}
+
+/**
+ * Throw while the event's index is being rebuilt - a claim made now could be lost when it is replaced
+ */
+async function assertNotRebuilding(eventId: string): Promise<void> {
+  if (await getTeamRepository().getExpiringKey(TEAM_INDEX_LOCKS_NODE, eventId)) {
+    throw new TeamIndexUnavailableError('Registration is paused while the team index is rebuilt. Please try again in a minute.');
+  }
+}
+
+/**
+ * Rebuild both indexes from the event's teams (organizer use, e.g. after editing data by hand)
+ * Teams sharing a name or email are reported; the oldest one keeps the index entry.
+ * Claims fail while the rebuild holds the event's lock, and only one rebuild runs at a time.
+ */
+export async function rebuildTeamIndex(eventId: string): Promise<TeamIndexRebuildReport> {
+  const repository = getTeamRepository();
+  const lock = await repository.claimExpiringKey(TEAM_INDEX_LOCKS_NODE, eventId, { expiresAt: Date.now() + REBUILD_LOCK_MS });
+  if (!lock.claimed) {
+    throw new TeamIndexUnavailableError(`The team index for event "${eventId}" is already being rebuilt`);
+  }
+
+  try {
+    await new Promise(resolve => setTimeout(resolve, REBUILD_DRAIN_MS));
+    return await buildTeamIndex(eventId);
+  } finally {
+    await repository.setExpiringKey(TEAM_INDEX_LOCKS_NODE, eventId, null);
+  }
+}
+
+/**
+ * Replace the index with one built from the event's current teams
+ */
+async function buildTeamIndex(eventId: string): Promise<TeamIndexRebuildReport> {
+  const repository = getTeamRepository();
+  const teams = await repository.listTeams(eventId);
+
+  teams.sort((a, b) => (a.createdAt || 0) - (b.createdAt || 0) || (a.uid < b.uid ? -1 : 1));
+
+  const entries: TeamIndexEntries = { names: {}, emails: {} };
+  const conflicts: Record<string, TeamIndexConflict> = {};
+
+  const addEntry = (index: TeamIndexName, key: string, uid: string) => {
+    const owner = entries[index][key];
+    if (!owner) {
+      entries[index][key] = uid;
+      return;
+    }
+    const conflictId = `${index}/${key}`;
+    conflicts[conflictId] = conflicts[conflictId] || { index, key, uids: [owner] };
+    conflicts[conflictId].uids.push(uid);
+  };
+
+  teams.forEach(team => {
+    if (team.teamName) {
+      addEntry('names', teamNameKey(team.teamName), team.uid);
+    }
+    if (team.email) {
+      addEntry('emails', emailKey(team.email), team.uid);
+    }
+  });
+
+  await repository.replaceTeamIndex(eventId, entries, { version: TEAM_INDEX_VERSION, builtAt: Date.now() });
+
+  return {
+    eventId,
+    teamCount: teams.length,
+    names: Object.keys(entries.names).length,
+    emails: Object.keys(entries.emails).length,
+    conflicts: Object.keys(conflicts).map(id => conflicts[id])
+  };
+}
+
+/**
+ * UID of the team using a name or email, or null if it's free
+ */
+export async function findIndexedUid(eventId: string, index: TeamIndexName, value: string): Promise<string | null> {
+  await ensureTeamIndex(eventId);
+  const key = index === 'names' ? teamNameKey(value) : emailKey(value);
+  return getTeamRepository().getIndexedUid(eventId, index, key);
+}
+
+/**
+ * Claim a team name for a UID, throwing if another team holds it
+ * Claiming a name the UID already holds succeeds.
+ */
+export async function claimTeamName(eventId: string, uid: string, teamName: string): Promise<void> {
+  await ensureTeamIndex(eventId);
+  await assertNotRebuilding(eventId);
+  if ((await getTeamRepository().claimIndexKey(eventId, 'names', teamNameKey(teamName), uid)) !== uid) {
+    throw new NameTakenError(teamName);
+  }
+}
+
+/**
+ * Release a team name held by a UID (no-op if another team holds it)
+ */
+export async function releaseTeamName(eventId: string, uid: string, teamName: string): Promise<void> {
+  await getTeamRepository().releaseIndexKey(eventId, 'names', teamNameKey(teamName), uid);
+}
+
+/**
+ * Claim a new team's name and email for its UID
+ * Throws if another team already holds either one; nothing stays claimed in that case.
+ */
+export async function claimTeamIndex(eventId: string, team: Pick<Team, 'uid' | 'teamName' | 'email'>): Promise<void> {
+  await claimTeamName(eventId, team.uid, team.teamName);
+
+  if ((await getTeamRepository().claimIndexKey(eventId, 'emails', emailKey(team.email), team.uid)) !== team.uid) {
+    await releaseTeamName(eventId, team.uid, team.teamName);
+    throw new EmailTakenError();
+  }
+}
+
+/**
+ * Release a team's name and email, e.g. when it is deleted
+ */
+export async function releaseTeamIndex(eventId: string, team: Pick<Team, 'uid' | 'teamName' | 'email'>): Promise<void> {
+  await Promise.all([
+    releaseTeamName(eventId, team.uid, team.teamName),
+    getTeamRepository().releaseIndexKey(eventId, 'emails', emailKey(team.email), team.uid)
+  ]);
+}
@@ -0,0 +1,229 @@
+// Team name rules
+// Names are compared in a canonical form (Unicode NFKC, case-folded, whitespace collapsed,
+// look-alike letters from other scripts mapped to Latin), so "Dragons", "dragons" and
+// "Drаgons" with a Cyrillic "а" are the same name. Registration also rejects names containing
+// a word from the organizer-editable blocklist, and suggests free names when one is taken.
+
+import { getTeamRepository } from './teamRepository';
+import { TEAM_NAME_MAX_LENGTH } from './registrationSchema';
+
+// Root node holding the organizer's blocklist
+export const NAME_BLOCKLIST_NODE = 'nameBlocklist';
+
+// Suggestions offered when a name is taken
+const MAX_SUGGESTIONS = 3;
+
+// Used until an organizer saves their own list. Entries match whole words;
+// a trailing * matches any word starting with the entry.
+export const DEFAULT_NAME_BLOCKLIST = [
+  'arse',
+  'arsehole*',
+  'asshole*',
+  'bastard*',
+  'bitch*',
+  'bollock*',
+  'bullshit',
+  'cock',
+  'cunt*',
+  'dick',
+  'dickhead*',
+  'fuck*',
+  'motherfuck*',
+  'nazi*',
+  'piss*',
+  'prick',
+  'pricks',
+  'shit*',
+  'slut*',
+  'twat*',
+  'wank*',
+  'whore*'
+];
+
+// Characters with no visible width, used to sneak past comparisons
+const INVISIBLE_CHARACTERS = /[\u00AD\u200B-\u200F\u2060\uFEFF]/g;
+
+// Cyrillic and Greek letters that look like Latin ones (lowercase forms, as names are
+// case-folded first). Full-width and styled letters are already folded by NFKC.
+const CONFUSABLES: Record<string, string> = {
+  '\u0430': 'a', // Cyrillic a
+  '\u0432': 'b', // Cyrillic ve (capital looks like B)
+  '\u0441': 'c', // Cyrillic es
+  '\u0435': 'e', // Cyrillic ie
+  '\u0451': 'e', // Cyrillic io
+  '\u04BB': 'h', // Cyrillic shha
+  '\u043D': 'h', // Cyrillic en (capital looks like H)
+  '\u0456': 'i', // Ukrainian i
+  '\u0457': 'i', // Ukrainian yi
+  '\u0458': 'j', // Cyrillic je
+  '\u043A': 'k', // Cyrillic ka
+  '\u04CF': 'l', // Cyrillic palochka
+  '\u043C': 'm', // Cyrillic em (capital looks like M)
+  '\u043E': 'o', // Cyrillic o
+  '\u0440': 'p', // Cyrillic er
+  '\u051B': 'q', // Cyrillic qa
+  '\u0455': 's', // Cyrillic dze
+  '\u0442': 't', // Cyrillic te (capital looks like T)
+  '\u0443': 'y', // Cyrillic u
+  '\u0445': 'x', // Cyrillic ha
+  '\u051D': 'w', // Cyrillic we
+  '\u03B1': 'a', // Greek alpha
+  '\u03B2': 'b', // Greek beta
+  '\u03B5': 'e', // Greek epsilon
+  '\u03B7': 'n', // Greek eta
+  '\u03B9': 'i', // Greek iota
+  '\u03BA': 'k', // Greek kappa
+  '\u03BC': 'm', // Greek mu (capital looks like M)
+  '\u03BD': 'v', // Greek nu
+  '\u03BF': 'o', // Greek omicron
+  '\u03C1': 'p', // Greek rho
+  '\u03C4': 't', // Greek tau
+  '\u03C5': 'u', // Greek upsilon
+  '\u03C7': 'x', // Greek chi
+  '\u03B6': 'z', // Greek zeta
+  '\u0131': 'i' // Dotless i
+};
+
+// Digit and symbol stand-ins, only undone when checking the blocklist
+const LEET_SUBSTITUTES: Record<string, string> = {
+  '0': 'o',
+  '1': 'i',
+  '3': 'e',
+  '4': 'a',
+  '5': 's',
+  '7': 't',
+  '@': 'a',
+  '$': 's',
+  '!': 'i'
+};
+
+function replaceCharacters(value: string, map: Record<string, string>): string {
+  let result = '';
+  for (let i = 0; i < value.length; i++) {
+    const character = value.charAt(i);
+    result += map[character] || character;
+  }
+  return result;
+}
+
+/**
+ * Tidy a name as entered: NFKC, no invisible characters, single spaces, trimmed
+ * This is the form that gets stored and displayed.
+ */
+export function cleanTeamName(teamName: string): string {
+  return teamName.normalize('NFKC').replace(INVISIBLE_CHARACTERS, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Canonical form used to decide whether two names are the same
+ */
+export function canonicalTeamName(teamName: string): string {
+  return replaceCharacters(cleanTeamName(teamName).toLowerCase(), CONFUSABLES);
+}
+
+/**
+ * Split a name into the words checked against the blocklist, with leetspeak undone
+ */
+function blocklistWords(teamName: string): string[] {
+  return replaceCharacters(canonicalTeamName(teamName), LEET_SUBSTITUTES)
+    .split(/[^a-z\u00C0-\uFFFF]+/)
+    .filter(word => word.length > 0);
+}
+
+/**
+ * Tidy blocklist entries: canonical, lowercase, no duplicates or blanks
+ */
+export function cleanBlocklist(words: string[]): string[] {
+  const cleaned: string[] = [];
+  words.forEach(word => {
+    const entry = canonicalTeamName(word).replace(/\s+/g, '');
+    if (entry.replace(/\*$/, '').length > 0 && cleaned.indexOf(entry) === -1) {
+      cleaned.push(entry);
+    }
+  });
+  return cleaned.sort();
+}
+
+/**
+ * The blocklist in effect: the organizer's saved list, or the default one
+ */
+export async function getNameBlocklist(): Promise<string[]> {
+  const saved = await getTeamRepository().getNameBlocklist();
+  return saved === null ? DEFAULT_NAME_BLOCKLIST.slice() : saved;
+}
+
+/**
+ * Replace the blocklist (organizer use); returns the list as stored
+ */
+export async function setNameBlocklist(words: string[]): Promise<string[]> {
+  const cleaned = cleanBlocklist(words);
+  await getTeamRepository().setNameBlocklist(cleaned);
+  return cleaned;
+}
+
+/**
+ * Blocklist entry a name contains, or null if the name is allowed
+ */
+export function findBlockedWord(teamName: string, blocklist: string[]): string | null {
+  const words = blocklistWords(teamName);
+
+  for (const entry of blocklist) {
+    const isPrefix = entry.charAt(entry.length - 1) === '*';
+    const stem = isPrefix ? entry.slice(0, -1) : entry;
+    const matches = words.some(word => (isPrefix ? word.indexOf(stem) === 0 : word === stem));
+    if (matches) {
+      return stem;
+    }
+  }
+  return null;
+}
+
+/**
+ * Check whether a name may be used at all (blocklist), independent of whether it's taken
+ */
+export async function isTeamNameBlocked(teamName: string): Promise<boolean> {
+  return findBlockedWord(teamName, await getNameBlocklist()) !== null;
+}
+
+/**
+ * Suggest free variations of a taken name, e.g. "Dragons 2" or "The Dragons"
+ * `isTaken` is passed in so suggestions are checked against the same index as registration.
+ */
+export async function suggestTeamNames(
+  teamName: string,
+  isTaken: (candidate: string) => Promise<boolean>
+): Promise<string[]> {
+  const base = cleanTeamName(teamName);
+  const candidates: string[] = [];
+
+  const addCandidate = (candidate: string) => {
+    if (candidate.length <= TEAM_NAME_MAX_LENGTH && candidates.indexOf(candidate) === -1) {
+      candidates.push(candidate);
+    }
+  };
+
+  // Long names are shortened to make room for the number
+  const numbered = (suffix: number) => `${base.slice(0, TEAM_NAME_MAX_LENGTH - String(suffix).length - 1).trim()} ${suffix}`;
+
+  // A mix of variations first, then more numbers
+  addCandidate(numbered(2));
+  if (canonicalTeamName(base).indexOf('the ') !== 0) {
+    addCandidate(`The ${base}`);
+  }
+  addCandidate(`${base} Crew`);
+  addCandidate(`${base} Squad`);
+  for (let suffix = 3; suffix <= 9; suffix++) {
+    addCandidate(numbered(suffix));
+  }
+
+  const suggestions: string[] = [];
+  for (const candidate of candidates) {
+    if (suggestions.length >= MAX_SUGGESTIONS) {
+      break;
+    }
+    if (!(await isTaken(candidate))) {
+      suggestions.push(candidate);
+    }
+  }
+  return suggestions;
+}
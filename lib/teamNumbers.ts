@@ -0,0 +1,96 @@
+// Team number repair
+// Team numbers used to be "existing teams + 1", so simultaneous registrations and deleted
+// teams left some events with duplicates. These helpers find and renumber them, and keep
+// the event's team counter ahead of every number in use.
+
+import { getTeamRepository } from './teamRepository';
+import { getHighestTeamNumber, type Team } from './firestore';
+
+export interface TeamNumberRepairReport {
+  eventId: string;
+  dryRun: boolean;
+  teamCount: number;
+  duplicates: Array<{ teamNumber: number; uids: string[] }>; // Oldest team first - it keeps the number
+  invalid: string[]; // UIDs of teams with a missing or non-positive team number
+  renumbered: Array<{ uid: string; teamName: string; from: number | null; to: number }>;
+}
+
+function isValidTeamNumber(value: unknown): value is number {
+  return typeof value === 'number' && value > 0 && Math.floor(value) === value;
+}
+
+/**
+ * Raise the event's team counter to at least its highest team number
+ * Run after writing teams directly (e.g. a migration) so new registrations can't reuse their numbers
+ */
+export async function syncTeamCounter(eventId: string): Promise<number> {
+  return getTeamRepository().advanceTeamCounter(eventId, await getHighestTeamNumber(eventId), 0);
+}
+
+/**
+ * Find teams sharing a team number and give every one but the oldest a new number
+ * Teams without a valid number are numbered too. Runs as a dry run unless dryRun is false;
+ * a dry run reports the numbers the teams would get if nothing registers in between.
+ */
+export async function repairTeamNumbers(eventId: string, dryRun: boolean = true): Promise<TeamNumberRepairReport> {
+  const repository = getTeamRepository();
+  const teams = await repository.listTeams(eventId);
+
+  const report: TeamNumberRepairReport = {
+    eventId,
+    dryRun,
+    teamCount: teams.length,
+    duplicates: [],
+    invalid: [],
+    renumbered: []
+  };
+
+  // Oldest first, so the team that registered first keeps its number
+  teams.sort((a, b) => (a.createdAt || 0) - (b.createdAt || 0) || (a.uid < b.uid ? -1 : 1));
+
+  const byNumber: Record<number, Team[]> = {};
+  const toRenumber: Team[] = [];
+
+  teams.forEach(team => {
+    if (!isValidTeamNumber(team.teamNumber)) {
+      report.invalid.push(team.uid);
+      toRenumber.push(team);
+      return;
+    }
+    byNumber[team.teamNumber] = (byNumber[team.teamNumber] || []).concat(team);
+  });
+
+  Object.keys(byNumber)
+    .map(Number)
+    .sort((a, b) => a - b)
+    .forEach(teamNumber => {
+      const holders = byNumber[teamNumber];
+      if (holders.length > 1) {
+        report.duplicates.push({ teamNumber, uids: holders.map(team => team.uid) });
+        toRenumber.push(...holders.slice(1));
+      }
+    });
+
+  if (toRenumber.length === 0) {
+    return report;
+  }
+
+  const highest = await getHighestTeamNumber(eventId);
+  let predicted = Math.max((await repository.getTeamCounter(eventId)) || 0, highest);
+
+  for (const team of toRenumber) {
+    // New numbers come from the counter, so they can't collide with later registrations
+    const to = dryRun ? ++predicted : await repository.advanceTeamCounter(eventId, highest, 1);
+    if (!dryRun) {
+      await repository.updateTeam(eventId, team.uid, { teamNumber: to });
+    }
+    report.renumbered.push({
+      uid: team.uid,
+      teamName: team.teamName,
+      from: isValidTeamNumber(team.teamNumber) ? team.teamNumber : null,
+      to
+    });
+  }
+
+  return report;
+}
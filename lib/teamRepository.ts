@@ -0,0 +1,104 @@
+// Team storage abstraction
+// All team, scoreboard, ledger, token and event-settings reads and writes go through a
+// TeamRepository, so the same logic runs against Firebase or an in-memory store.
+
+import type { Team, ScoreEvent, ScoreChange, ScoreChangeDetails, ScoreboardEntry } from './firestore';
+import type { TeamTokenRecord } from './teamTokens';
+import type { EventSettings, EventSummary } from './events';
+import type { TeamIndexName, TeamIndexEntries, TeamIndexMeta } from './teamIndex';
+import { createFirebaseTeamRepository } from './firebaseTeamRepository';
+import { createMemoryTeamRepository } from './memoryTeamRepository';
+
+// Records stored under an expiring key (idempotency keys, signature nonces, SMS deliveries)
+export interface ExpiringRecord {
+  expiresAt: number;
+}
+
+export type ExpiringKeyClaim<T extends ExpiringRecord> =
+  | { claimed: true }
+  | { claimed: false; existing: T };
+
+// Changes to a stored team; null removes an optional field
+export type TeamChanges = {
+  [K in keyof Team]?: Team[K] | null;
+};
+
+export interface TeamRepository {
+  // Teams - writes keep the public scoreboard entry in sync
+  getTeam(eventId: string, uid: string): Promise<Team | null>;
+  listTeams(eventId: string): Promise<Team[]>;
+  createTeam(eventId: string, team: Team): Promise<boolean>; // False (nothing written) if the UID is already taken
+  updateTeam(eventId: string, uid: string, changes: TeamChanges): Promise<void>;
+  deleteTeam(eventId: string, uid: string): Promise<void>; // Team, scoreboard entry and token; the ledger is kept
+
+  // Team number counter - the highest number handed out, never decreases
+  getTeamCounter(eventId: string): Promise<number | null>;
+  advanceTeamCounter(eventId: string, floor: number, step: number): Promise<number>; // Atomic: max(counter, floor) + step
+
+  // Unique name/email indexes (key -> owning UID)
+  getIndexedUid(eventId: string, index: TeamIndexName, key: string): Promise<string | null>;
+  claimIndexKey(eventId: string, index: TeamIndexName, key: string, uid: string): Promise<string>; // Atomic; returns the owner after the claim
+  releaseIndexKey(eventId: string, index: TeamIndexName, key: string, uid: string): Promise<void>; // Only if uid owns the key
+  getTeamIndexMeta(eventId: string): Promise<TeamIndexMeta | null>;
+  setTeamIndexMeta(eventId: string, meta: TeamIndexMeta): Promise<void>; // Entries untouched
+  replaceTeamIndex(eventId: string, entries: TeamIndexEntries, meta: TeamIndexMeta): Promise<void>;
+
+  // Words team names may not contain, shared by all events; null until an organizer saves a list
+  getNameBlocklist(): Promise<string[] | null>;
+  setNameBlocklist(words: string[]): Promise<void>;
+
+  // Score ledger
+  applyScoreChange(eventId: string, uid: string, amount: number, details: ScoreChangeDetails): Promise<ScoreEvent>; // Atomic increment + ledger event
+  applyScoreChanges(eventId: string, uid: string, changes: ScoreChange[]): Promise<ScoreEvent[]>; // Atomic: one increment by the total + a ledger event per change
+  appendScoreEvent(eventId: string, uid: string, amount: number, details: ScoreChangeDetails): Promise<ScoreEvent>; // Ledger only, score untouched
+  setScore(eventId: string, uid: string, score: number): Promise<void>;
+  getScoreEvents(eventId: string, uid: string): Promise<ScoreEvent[]>;
+
+  // Public scoreboard
+  getScoreboard(eventId: string): Promise<ScoreboardEntry[]>;
+  replaceScoreboard(eventId: string, entries: Record<string, ScoreboardEntry>): Promise<void>;
+  subscribeToScoreboard(
+    eventId: string,
+    callback: (entries: ScoreboardEntry[]) => void,
+    onError?: (error: Error) => void // The subscription has stopped; resubscribe to resume
+  ): () => void;
+
+  // Team tokens
+  getTeamToken(eventId: string, uid: string): Promise<TeamTokenRecord | null>;
+  setTeamToken(eventId: string, uid: string, record: TeamTokenRecord | null): Promise<void>;
+
+  // Events
+  getEventSettings(eventId: string): Promise<EventSettings | null>;
+  createEvent(eventId: string, settings: EventSettings): Promise<void>;
+  listEvents(): Promise<EventSummary[]>;
+
+  // Expiring keys under a root node - a claim succeeds only if the key is absent or expired,
+  // and exactly one concurrent caller wins it
+  claimExpiringKey<T extends ExpiringRecord>(node: string, key: string, record: T): Promise<ExpiringKeyClaim<T>>;
+  getExpiringKey<T extends ExpiringRecord>(node: string, key: string): Promise<T | null>; // Null once expired
+  setExpiringKey<T extends ExpiringRecord>(node: string, key: string, record: T | null): Promise<void>;
+  deleteExpiredKeys(node: string, now: number, limit: number): Promise<number>; // Oldest first; returns how many were deleted
+}
+
+let activeRepository: TeamRepository | null = null;
+
+/**
+ * Get the repository used by the app
+ * Firebase by default; set STORAGE_BACKEND=memory to run without a database
+ */
+export function getTeamRepository(): TeamRepository {
+  if (!activeRepository) {
+    activeRepository = process.env.STORAGE_BACKEND === 'memory'
+      ? createMemoryTeamRepository()
+      : createFirebaseTeamRepository();
+  }
+  return activeRepository;
+}
+
+/**
+ * Swap the repository, e.g. for a fresh in-memory store per test
+ * Pass null to go back to the default on next use
+ */
+export function setTeamRepository(repository: TeamRepository | null): void {
+  activeRepository = repository;
+}
@@ -0,0 +1,119 @@
+// Secret team tokens
+// Each team gets a private token at registration that the Unity client must present.
+// Only a SHA-256 hash is stored, in a node separate from the public team data.
+
+import { getTeamRepository } from './teamRepository';
+
+// Event child node holding token hashes keyed by team UID
+export const TEAM_TOKENS_NODE = 'teamTokens';
+
+// Header the Unity client sends the token in; `teamToken` in the body also works
+export const TEAM_TOKEN_HEADER = 'x-team-token';
+
+// Unambiguous characters so the token can be read out or typed if needed
+const TOKEN_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnpqrstuvwxyz23456789';
+const TOKEN_LENGTH = 24; // ~138 bits of entropy
+
+export interface TeamTokenRecord {
+  tokenHash: string;
+  issuedAt: number;
+}
+
+export type TeamTokenErrorCode = 'TEAM_TOKEN_MISSING' | 'TEAM_TOKEN_INVALID' | 'TEAM_TOKEN_NOT_ISSUED';
+
+export type TeamTokenCheck =
+  | { valid: true }
+  | { valid: false; code: TeamTokenErrorCode; error: string };
+
+/**
+ * Generate a new random team token
+ * Uses Web Crypto so this works both in the browser and in API routes
+ */
+export function generateTeamToken(): string {
+  const bytes = new Uint8Array(TOKEN_LENGTH);
+  globalThis.crypto.getRandomValues(bytes);
+
+  let token = '';
+  for (let i = 0; i < bytes.length; i++) {
+    // 256 is not a multiple of the alphabet size; the slight bias is irrelevant at this length
+    token += TOKEN_ALPHABET.charAt(bytes[i] % TOKEN_ALPHABET.length);
+  }
+  return token;
+}
+
+/**
+ * Hash a token for storage (hex SHA-256)
+ */
+export async function hashTeamToken(token: string): Promise<string> {
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  const bytes = new Uint8Array(digest);
+
+  let hex = '';
+  for (let i = 0; i < bytes.length; i++) {
+    hex += (bytes[i] < 16 ? '0' : '') + bytes[i].toString(16);
+  }
+  return hex;
+}
+
+/**
+ * Issue a fresh token for a team, replacing any previous one
+ * Returns the plain token - it is never stored and can't be recovered later
+ */
+export async function issueTeamToken(eventId: string, uid: string): Promise<string> {
+  const token = generateTeamToken();
+  const record: TeamTokenRecord = {
+    tokenHash: await hashTeamToken(token),
+    issuedAt: Date.now()
+  };
+  await getTeamRepository().setTeamToken(eventId, uid, record);
+  return token;
+}
+
+/**
+ * Revoke a team's token (e.g. a lost phone). The team is locked out until a new one is issued.
+ */
+export async function revokeTeamToken(eventId: string, uid: string): Promise<void> {
+  await getTeamRepository().setTeamToken(eventId, uid, null);
+}
+
+/**
+ * Read the token a client sent, from the header or the `teamToken` body field
+ */
+export function getProvidedTeamToken(headers: Record<string, string | string[] | undefined>, body: unknown): string | null {
+  const header = headers[TEAM_TOKEN_HEADER];
+  const fromBody = body && typeof body === 'object' ? (body as Record<string, unknown>).teamToken : undefined;
+  const token = Array.isArray(header) ? header[0] : header || fromBody;
+  return typeof token === 'string' && token ? token : null;
+}
+
+/**
+ * Check a provided token against the stored hash for a team
+ */
+export async function verifyTeamToken(eventId: string, uid: string, token: string | null): Promise<TeamTokenCheck> {
+  if (!token) {
+    return {
+      valid: false,
+      code: 'TEAM_TOKEN_MISSING',
+      error: `Missing team token. Send it in the ${TEAM_TOKEN_HEADER} header.`
+    };
+  }
+
+  const record = await getTeamRepository().getTeamToken(eventId, uid);
+  if (!record) {
+    return {
+      valid: false,
+      code: 'TEAM_TOKEN_NOT_ISSUED',
+      error: 'No active token for this team. Ask an organizer to issue a new one.'
+    };
+  }
+
+  if (record.tokenHash !== await hashTeamToken(token)) {
+    return {
+      valid: false,
+      code: 'TEAM_TOKEN_INVALID',
+      error: 'Team token is not valid for this team'
+    };
+  }
+
+  return { valid: true };
+}
@@ -9,6 +9,12 @@ const nextConfig = {
   // Environment variables that should be available to the browser
   env: {
     CUSTOM_KEY: 'my-value',
+    // The registration form validates phone numbers with the same default country code as the API
+    DEFAULT_PHONE_COUNTRY_CODE: process.env.DEFAULT_PHONE_COUNTRY_CODE || '',
+  },
+  // Email templates are read from disk at runtime, so ship them with the API routes
+  outputFileTracingIncludes: {
+    '/api/**/*': ['./emails/**/*'],
   },
 }
 
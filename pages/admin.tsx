@@ -0,0 +1,375 @@
+// Organizer Admin Console
+// Lets organizers manage teams through the admin API routes (never direct database writes)
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/router';
+import Layout from '@/components/Layout';
+import type { Team } from '@/lib/firestore';
+import type { EventSummary, VerificationChannel } from '@/lib/events';
+import { getPageEventId } from '@/lib/eventIds';
+
+// Session storage key for the organizer's admin key (cleared when the tab closes)
+const ADMIN_KEY_STORAGE = 'arth-admin-key';
+
+// Editable copy of a team's details while a row is being edited
+type TeamDraft = {
+  teamName: string;
+  player1: string;
+  player2: string;
+};
+
+export default function Admin() {
+  // Event being managed, selected with ?event=<eventId>
+  const router = useRouter();
+  const eventId = getPageEventId(router.query.event);
+
+  const [adminKey, setAdminKey] = useState('');
+  const [keyInput, setKeyInput] = useState('');
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [editingUid, setEditingUid] = useState('');
+  const [draft, setDraft] = useState<TeamDraft>({ teamName: '', player1: '', player2: '' });
+  const [adjustments, setAdjustments] = useState<Record<string, { amount: string; reason: string }>>({});
+  const [events, setEvents] = useState<EventSummary[]>([]);
+  const [newEvent, setNewEvent] = useState<{ eventId: string; name: string; verificationChannel: VerificationChannel }>({
+    eventId: '',
+    name: '',
+    verificationChannel: 'email'
+  });
+  // Blocked words for team names, one per line while editing
+  const [blocklistText, setBlocklistText] = useState('');
+
+  // Restore the key for this browser tab
+  useEffect(() => {
+    const storedKey = sessionStorage.getItem(ADMIN_KEY_STORAGE);
+    if (storedKey) {
+      setAdminKey(storedKey);
+    }
+  }, []);
+
+  // Call an admin API route with the organizer key, scoped to the selected event
+  const adminFetch = useCallback(async (path: string, options: RequestInit = {}) => {
+    const separator = path.indexOf('?') === -1 ? '?' : '&';
+    const response = await fetch(`${path}${separator}event=${encodeURIComponent(eventId)}`, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${adminKey}`
+      }
+    });
+    const result = await response.json();
+
+    if (response.status === 401) {
+      sessionStorage.removeItem(ADMIN_KEY_STORAGE);
+      setAdminKey('');
+    }
+
+    if (!result.success) {
+      throw new Error(result.error || 'Request failed');
+    }
+    return result.data;
+  }, [adminKey, eventId]);
+
+  // Load all teams (full records, including contact details)
+  const loadTeams = useCallback(async () => {
+    setIsLoading(true);
+    setError('');
+    try {
+      const [teamData, eventData, blocklistData] = await Promise.all([
+        adminFetch('/api/admin/teams'),
+        adminFetch('/api/admin/events'),
+        adminFetch('/api/admin/name-blocklist')
+      ]);
+      setTeams(teamData.teams);
+      setEvents(eventData.events);
+      setBlocklistText(blocklistData.words.join('\n'));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load teams');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [adminFetch]);
+
+  useEffect(() => {
+    if (adminKey) {
+      loadTeams();
+    }
+  }, [adminKey, loadTeams]);
+
+  // Run an action, then show its outcome and refresh the list
+  const runAction = async (action: () => Promise<unknown>, successMessage: string) => {
+    setError('');
+    setNotice('');
+    try {
+      await action();
+      setNotice(successMessage);
+      await loadTeams();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed');
+    }
+  };
+
+  const handleLogin = (e: React.FormEvent) => {
+    e.preventDefault();
+    sessionStorage.setItem(ADMIN_KEY_STORAGE, keyInput.trim());
+    setAdminKey(keyInput.trim());
+    setKeyInput('');
+  };
+
+  const selectEvent = (selectedEventId: string) => {
+    router.push({ pathname: '/admin', query: { event: selectedEventId } });
+  };
+
+  const handleCreateEvent = (e: React.FormEvent) => {
+    e.preventDefault();
+    return runAction(async () => {
+      await adminFetch('/api/admin/events', { method: 'POST', body: JSON.stringify(newEvent) });
+      setNewEvent({ eventId: '', name: '', verificationChannel: 'email' });
+    }, `Event "${newEvent.eventId}" created`);
+  };
+
+  const saveBlocklist = (e: React.FormEvent) => {
+    e.preventDefault();
+    return runAction(
+      () => adminFetch('/api/admin/name-blocklist', {
+        method: 'PUT',
+        body: JSON.stringify({ words: blocklistText.split('\n') })
+      }),
+      'Blocked words saved'
+    );
+  };
+
+  const sendResults = () => {
+    if (!window.confirm(`Email final scores and ranks to every ranked team in "${eventId}"?`)) {
+      return;
+    }
+    setError('');
+    setNotice('');
+    return adminFetch('/api/admin/send-results', { method: 'POST' })
+      .then(result => {
+        const failures = result.failed.length > 0 ? ` (${result.failed.length} failed: ${result.failed.join(', ')})` : '';
+        setNotice(`Results emailed to ${result.sent} team(s)${failures}`);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to send results'));
+  };
+
+  const handleLogout = () => {
+    sessionStorage.removeItem(ADMIN_KEY_STORAGE);
+    setAdminKey('');
+    setTeams([]);
+  };
+
+  const startEditing = (team: Team) => {
+    setEditingUid(team.uid);
+    setDraft({ teamName: team.teamName, player1: team.player1, player2: team.player2 });
+  };
+
+  const saveEdits = (uid: string) => runAction(async () => {
+    await adminFetch(`/api/admin/teams/${uid}`, { method: 'PATCH', body: JSON.stringify(draft) });
+    setEditingUid('');
+  }, 'Team details saved');
+
+  const adjustScore = (uid: string) => {
+    const adjustment = adjustments[uid] || { amount: '', reason: '' };
+    return runAction(async () => {
+      await adminFetch(`/api/admin/teams/${uid}/score`, {
+        method: 'POST',
+        body: JSON.stringify({ amount: Number(adjustment.amount), reason: adjustment.reason })
+      });
+      setAdjustments(prev => ({ ...prev, [uid]: { amount: '', reason: '' } }));
+    }, 'Score adjusted');
+  };
+
+  const toggleDisqualified = (team: Team) => {
+    const reason = team.disqualified ? '' : window.prompt(`Reason for disqualifying "${team.teamName}"?`);
+    if (reason === null) {
+      return; // Prompt cancelled
+    }
+    return runAction(
+      () => adminFetch(`/api/admin/teams/${team.uid}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ disqualified: !team.disqualified, disqualifiedReason: reason })
+      }),
+      team.disqualified ? 'Team reinstated' : 'Team disqualified'
+    );
+  };
+
+  const removeTeam = (team: Team) => {
+    if (!window.confirm(`Permanently delete "${team.teamName}" (${team.uid})? This cannot be undone.`)) {
+      return;
+    }
+    return runAction(
+      () => adminFetch(`/api/admin/teams/${team.uid}`, { method: 'DELETE' }),
+      'Team deleted'
+    );
+  };
+
+  const updateAdjustment = (uid: string, field: 'amount' | 'reason', value: string) => {
+    setAdjustments(prev => ({
+      ...prev,
+      [uid]: { ...(prev[uid] || { amount: '', reason: '' }), [field]: value }
+    }));
+  };
+
+  // Key entry form
+  if (!adminKey) {
+    return (
+      <Layout title="Organizer Console" description="Manage teams, scores and disqualifications">
+        <div className="form-container">
+          <form onSubmit={handleLogin}>
+            <div className="form-group">
+              <label htmlFor="adminKey">Organizer key</label>
+              <input
+                id="adminKey"
+                type="password"
+                className="form-input"
+                value={keyInput}
+                onChange={(e) => setKeyInput(e.target.value)}
+                required
+              />
+            </div>
+            <button type="submit" className="btn">Sign in</button>
+          </form>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout title="Organizer Console" description="Manage teams, scores and disqualifications">
+      <div style={{ display: 'flex', gap: '1rem', marginTop: '1rem', flexWrap: 'wrap', alignItems: 'center' }}>
+        <label htmlFor="eventSelect"><strong>Event</strong></label>
+        <select id="eventSelect" className="form-input" style={{ width: 'auto' }}
+          value={eventId} onChange={(e) => selectEvent(e.target.value)}>
+          {events.every(event => event.eventId !== eventId) && <option value={eventId}>{eventId}</option>}
+          {events.map(event => (
+            <option key={event.eventId} value={event.eventId}>{event.name} ({event.eventId})</option>
+          ))}
+        </select>
+        <button className="btn" style={{ width: 'auto' }} onClick={loadTeams} disabled={isLoading}>
+          {isLoading ? 'Loading...' : 'Refresh'}
+        </button>
+        <button className="btn" style={{ width: 'auto' }} onClick={sendResults}>
+          Email final results
+        </button>
+        <button className="btn" style={{ width: 'auto' }} onClick={handleLogout}>
+          Sign out
+        </button>
+      </div>
+
+      <form onSubmit={handleCreateEvent} style={{ display: 'flex', gap: '1rem', marginTop: '1rem', flexWrap: 'wrap' }}>
+        <input className="form-input" style={{ width: 'auto' }} placeholder="new-event-id"
+          value={newEvent.eventId} onChange={(e) => setNewEvent({ ...newEvent, eventId: e.target.value })} required />
+        <input className="form-input" style={{ width: 'auto' }} placeholder="Event name"
+          value={newEvent.name} onChange={(e) => setNewEvent({ ...newEvent, name: e.target.value })} required />
+        <select className="form-input" style={{ width: 'auto' }} value={newEvent.verificationChannel}
+          onChange={(e) => setNewEvent({ ...newEvent, verificationChannel: e.target.value as VerificationChannel })}>
+          <option value="email">Verify by email</option>
+          <option value="sms">Verify by SMS</option>
+        </select>
+        <button type="submit" className="btn" style={{ width: 'auto' }}>Create event</button>
+      </form>
+
+      <form onSubmit={saveBlocklist} style={{ marginTop: '1rem' }}>
+        <details>
+          <summary><strong>Blocked words in team names</strong> (all events)</summary>
+          <p style={{ margin: '0.5rem 0' }}>
+            One per line. Whole words match; end a word with * to also block words starting with it.
+          </p>
+          <textarea className="form-input" rows={8} value={blocklistText}
+            onChange={(e) => setBlocklistText(e.target.value)} />
+          <button type="submit" className="btn" style={{ width: 'auto', marginTop: '0.5rem' }}>Save blocked words</button>
+        </details>
+      </form>
+
+      {error && <div className="error-message" style={{ marginTop: '1rem' }}>{error}</div>}
+      {notice && <div className="success-message" style={{ marginTop: '1rem' }}>{notice}</div>}
+
+      <div className="scoreboard-table">
+        <table>
+          <thead>
+            <tr>
+              <th>#</th>
+              <th>UID</th>
+              <th>Team</th>
+              <th>Contact</th>
+              <th>Adjust score</th>
+              <th>Actions</th>
+              <th>Score</th>
+            </tr>
+          </thead>
+          <tbody>
+            {teams.map(team => {
+              const isEditing = editingUid === team.uid;
+              const adjustment = adjustments[team.uid] || { amount: '', reason: '' };
+
+              return (
+                <tr key={team.uid} style={team.disqualified ? { opacity: 0.6 } : undefined}>
+                  <td>{team.teamNumber}</td>
+                  <td><code>{team.uid}</code></td>
+                  <td>
+                    {isEditing ? (
+                      <>
+                        <input className="form-input" value={draft.teamName}
+                          onChange={(e) => setDraft({ ...draft, teamName: e.target.value })} />
+                        <input className="form-input" value={draft.player1}
+                          onChange={(e) => setDraft({ ...draft, player1: e.target.value })} />
+                        <input className="form-input" value={draft.player2}
+                          onChange={(e) => setDraft({ ...draft, player2: e.target.value })} />
+                      </>
+                    ) : (
+                      <>
+                        <strong>{team.teamName}</strong>
+                        <div>{team.player1} & {team.player2}</div>
+                        {team.disqualified && (
+                          <div style={{ color: '#721c24' }}>
+                            Disqualified{team.disqualifiedReason ? `: ${team.disqualifiedReason}` : ''}
+                          </div>
+                        )}
+                      </>
+                    )}
+                  </td>
+                  <td>
+                    <div>{team.emailDisplay || team.email}</div>
+                    <div>{team.phoneNumber}</div>
+                    {!team.verified && <div style={{ color: '#856404' }}>Email not verified</div>}
+                  </td>
+                  <td>
+                    <input className="form-input" type="number" placeholder="Points"
+                      value={adjustment.amount}
+                      onChange={(e) => updateAdjustment(team.uid, 'amount', e.target.value)} />
+                    <input className="form-input" placeholder="Reason"
+                      value={adjustment.reason}
+                      onChange={(e) => updateAdjustment(team.uid, 'reason', e.target.value)} />
+                    <button className="btn" onClick={() => adjustScore(team.uid)}
+                      disabled={!adjustment.amount || !adjustment.reason.trim()}>
+                      Apply
+                    </button>
+                  </td>
+                  <td>
+                    {isEditing ? (
+                      <>
+                        <button className="btn" onClick={() => saveEdits(team.uid)}>Save</button>
+                        <button className="btn" onClick={() => setEditingUid('')}>Cancel</button>
+                      </>
+                    ) : (
+                      <button className="btn" onClick={() => startEditing(team)}>Edit</button>
+                    )}
+                    <button className="btn" onClick={() => toggleDisqualified(team)}>
+                      {team.disqualified ? 'Reinstate' : 'Disqualify'}
+                    </button>
+                    <button className="btn" onClick={() => removeTeam(team)}>Delete</button>
+                  </td>
+                  <td>{team.score.toLocaleString()}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {!isLoading && teams.length === 0 && <div className="loading">No teams registered yet</div>}
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,78 @@
+// API Endpoint: POST /api/admin/backfill-contacts
+// Organizer-only endpoint that rewrites existing teams' emails in canonical form and phone numbers
+// in E.164, keeping what was typed as the display form, then rebuilds the email index.
+// Runs as a dry run unless the body sets "dryRun": false.
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { isOrganizerRequest } from '@/lib/adminAuth';
+import { getRequestEventId, eventExists } from '@/lib/events';
+import { backfillContactDetails, type ContactBackfillReport } from '@/lib/contactBackfill';
+import { sendApiError, type ApiErrorResponse } from '@/lib/errors';
+
+// Define the response types for better type safety
+type SuccessResponse = {
+  success: true;
+  data: ContactBackfillReport;
+};
+
+type ApiResponse = SuccessResponse | ApiErrorResponse;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>
+) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use POST.',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  if (!isOrganizerRequest(req)) {
+    return res.status(401).json({
+      success: false,
+      error: 'Organizer authorization required',
+      code: 'UNAUTHORIZED'
+    });
+  }
+
+  const { dryRun } = req.body || {};
+
+  if (dryRun !== undefined && typeof dryRun !== 'boolean') {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid field: dryRun must be a boolean',
+      code: 'VALIDATION_FAILED'
+    });
+  }
+
+  let eventId: string;
+  try {
+    eventId = getRequestEventId(req);
+  } catch (error) {
+    return sendApiError(res, error);
+  }
+
+  try {
+    if (!(await eventExists(eventId))) {
+      return res.status(404).json({
+        success: false,
+        error: `Event "${eventId}" not found`,
+        code: 'EVENT_NOT_FOUND'
+      });
+    }
+
+    const report = await backfillContactDetails(eventId, dryRun !== false);
+
+    res.status(200).json({
+      success: true,
+      data: report
+    });
+
+  } catch (error) {
+    console.error('Contact backfill API error:', error);
+    sendApiError(res, error);
+  }
+}
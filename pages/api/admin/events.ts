@@ -0,0 +1,90 @@
+// API Endpoint: GET/POST /api/admin/events
+// Organizer-only endpoint to list events and create new ones
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { isOrganizerRequest } from '@/lib/adminAuth';
+import {
+  listEvents,
+  createEvent,
+  VERIFICATION_CHANNELS,
+  type EventSummary
+} from '@/lib/events';
+import { isValidEventId } from '@/lib/eventIds';
+import { sendApiError, type ApiErrorResponse } from '@/lib/errors';
+
+// Define the response types for better type safety
+type SuccessResponse = {
+  success: true;
+  data: {
+    events: EventSummary[];
+  } | EventSummary;
+};
+
+type ApiResponse = SuccessResponse | ApiErrorResponse;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>
+) {
+  if (!isOrganizerRequest(req)) {
+    return res.status(401).json({
+      success: false,
+      error: 'Organizer authorization required',
+      code: 'UNAUTHORIZED'
+    });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const events = await listEvents();
+      return res.status(200).json({
+        success: true,
+        data: { events }
+      });
+    }
+
+    if (req.method === 'POST') {
+      const { eventId, name, verificationChannel } = req.body;
+
+      if (typeof eventId !== 'string' || !isValidEventId(eventId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid eventId. Use up to 40 lowercase letters, digits and dashes.',
+          code: 'INVALID_EVENT_ID'
+        });
+      }
+
+      if (typeof name !== 'string' || !name.trim()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Missing required field: name',
+          code: 'VALIDATION_FAILED'
+        });
+      }
+
+      if (verificationChannel !== undefined && VERIFICATION_CHANNELS.indexOf(verificationChannel) === -1) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid field: verificationChannel must be "email" or "sms"',
+          code: 'VALIDATION_FAILED'
+        });
+      }
+
+      const settings = await createEvent(eventId, name.trim(), verificationChannel);
+      return res.status(201).json({
+        success: true,
+        data: { eventId, ...settings }
+      });
+    }
+
+    res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use GET or POST.',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+
+  } catch (error) {
+    console.error('Admin events API error:', error);
+    sendApiError(res, error);
+  }
+}
@@ -0,0 +1,68 @@
+// API Endpoint: GET/PUT /api/admin/name-blocklist
+// Organizer-only endpoint to view and replace the words team names may not contain
+// The list is shared by all events. Entries match whole words; a trailing * matches any
+// word starting with the entry (e.g. "fuck*").
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { isOrganizerRequest } from '@/lib/adminAuth';
+import { getNameBlocklist, setNameBlocklist } from '@/lib/teamNames';
+import { sendApiError, type ApiErrorResponse } from '@/lib/errors';
+
+// Define the response types for better type safety
+type SuccessResponse = {
+  success: true;
+  data: {
+    words: string[];
+  };
+};
+
+type ApiResponse = SuccessResponse | ApiErrorResponse;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>
+) {
+  if (!isOrganizerRequest(req)) {
+    return res.status(401).json({
+      success: false,
+      error: 'Organizer authorization required',
+      code: 'UNAUTHORIZED'
+    });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      return res.status(200).json({
+        success: true,
+        data: { words: await getNameBlocklist() }
+      });
+    }
+
+    if (req.method === 'PUT') {
+      const { words } = req.body || {};
+
+      if (!Array.isArray(words) || words.some(word => typeof word !== 'string')) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid field: words must be an array of strings',
+          code: 'VALIDATION_FAILED'
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: { words: await setNameBlocklist(words) }
+      });
+    }
+
+    res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use GET or PUT.',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+
+  } catch (error) {
+    console.error('Name blocklist API error:', error);
+    sendApiError(res, error);
+  }
+}
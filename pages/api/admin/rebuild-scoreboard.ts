@@ -0,0 +1,60 @@
+// API Endpoint: POST /api/admin/rebuild-scoreboard
+// Organizer-only endpoint that regenerates the public scoreboard node from the team records
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { rebuildPublicScoreboard } from '@/lib/firestore';
+import { isOrganizerRequest } from '@/lib/adminAuth';
+import { getRequestEventId } from '@/lib/events';
+import { sendApiError, type ApiErrorResponse } from '@/lib/errors';
+
+// Define the response types for better type safety
+type SuccessResponse = {
+  success: true;
+  data: {
+    teamsWritten: number;
+  };
+};
+
+type ApiResponse = SuccessResponse | ApiErrorResponse;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>
+) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use POST.',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  if (!isOrganizerRequest(req)) {
+    return res.status(401).json({
+      success: false,
+      error: 'Organizer authorization required',
+      code: 'UNAUTHORIZED'
+    });
+  }
+
+  let eventId: string;
+  try {
+    eventId = getRequestEventId(req);
+  } catch (error) {
+    return sendApiError(res, error);
+  }
+
+  try {
+    const teamsWritten = await rebuildPublicScoreboard(eventId);
+
+    res.status(200).json({
+      success: true,
+      data: { teamsWritten }
+    });
+
+  } catch (error) {
+    console.error('Rebuild scoreboard API error:', error);
+    sendApiError(res, error);
+  }
+}
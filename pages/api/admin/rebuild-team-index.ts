@@ -0,0 +1,59 @@
+// API Endpoint: POST /api/admin/rebuild-team-index
+// Organizer-only endpoint that regenerates the team name and email indexes from the team records
+// Use after editing teams directly in the database; teams sharing a name or email are reported
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { rebuildTeamIndex, type TeamIndexRebuildReport } from '@/lib/teamIndex';
+import { isOrganizerRequest } from '@/lib/adminAuth';
+import { getRequestEventId } from '@/lib/events';
+import { sendApiError, type ApiErrorResponse } from '@/lib/errors';
+
+// Define the response types for better type safety
+type SuccessResponse = {
+  success: true;
+  data: TeamIndexRebuildReport;
+};
+
+type ApiResponse = SuccessResponse | ApiErrorResponse;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>
+) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use POST.',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  if (!isOrganizerRequest(req)) {
+    return res.status(401).json({
+      success: false,
+      error: 'Organizer authorization required',
+      code: 'UNAUTHORIZED'
+    });
+  }
+
+  let eventId: string;
+  try {
+    eventId = getRequestEventId(req);
+  } catch (error) {
+    return sendApiError(res, error);
+  }
+
+  try {
+    const report = await rebuildTeamIndex(eventId);
+
+    res.status(200).json({
+      success: true,
+      data: report
+    });
+
+  } catch (error) {
+    console.error('Rebuild team index API error:', error);
+    sendApiError(res, error);
+  }
+}
@@ -0,0 +1,58 @@
+// API Endpoint: POST /api/admin/send-results
+// Organizer-only endpoint that emails every ranked team its final score and rank
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { isOrganizerRequest } from '@/lib/adminAuth';
+import { getRequestEventId } from '@/lib/events';
+import { sendFinalResults, type ResultsMailing } from '@/lib/notifications';
+import { sendApiError, type ApiErrorResponse } from '@/lib/errors';
+
+// Define the response types for better type safety
+type SuccessResponse = {
+  success: true;
+  data: ResultsMailing;
+};
+
+type ApiResponse = SuccessResponse | ApiErrorResponse;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>
+) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use POST.',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  if (!isOrganizerRequest(req)) {
+    return res.status(401).json({
+      success: false,
+      error: 'Organizer authorization required',
+      code: 'UNAUTHORIZED'
+    });
+  }
+
+  let eventId: string;
+  try {
+    eventId = getRequestEventId(req);
+  } catch (error) {
+    return sendApiError(res, error);
+  }
+
+  try {
+    const mailing = await sendFinalResults(eventId);
+
+    res.status(200).json({
+      success: true,
+      data: mailing
+    });
+
+  } catch (error) {
+    console.error('Send results API error:', error);
+    sendApiError(res, error);
+  }
+}
@@ -0,0 +1,134 @@
+// API Endpoint: PATCH/DELETE /api/admin/teams/[uid]
+// Organizer-only endpoint to edit, disqualify, reinstate or delete a team
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import {
+  updateTeamDetails,
+  setTeamDisqualified,
+  deleteTeam,
+  getTeam,
+  type Team,
+  type TeamDetailsUpdate
+} from '@/lib/firestore';
+import { validateField } from '@/lib/registrationSchema';
+import { isOrganizerRequest } from '@/lib/adminAuth';
+import { getRequestEventId } from '@/lib/events';
+import { sendApiError, type ApiErrorResponse } from '@/lib/errors';
+
+// Define the response types for better type safety
+type SuccessResponse = {
+  success: true;
+  data: Team | { uid: string; deleted: true };
+};
+
+type ApiResponse = SuccessResponse | ApiErrorResponse;
+
+// Text fields organizers are allowed to edit
+const EDITABLE_FIELDS: Array<keyof TeamDetailsUpdate> = ['teamName', 'player1', 'player2'];
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>
+) {
+  if (!isOrganizerRequest(req)) {
+    return res.status(401).json({
+      success: false,
+      error: 'Organizer authorization required',
+      code: 'UNAUTHORIZED'
+    });
+  }
+
+  const { uid } = req.query;
+  if (!uid || typeof uid !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Missing team UID in the URL',
+      code: 'VALIDATION_FAILED'
+    });
+  }
+
+  let eventId: string;
+  try {
+    eventId = getRequestEventId(req);
+  } catch (error) {
+    return sendApiError(res, error);
+  }
+
+  try {
+    if (req.method === 'PATCH') {
+      const { disqualified, disqualifiedReason } = req.body;
+      const changes: TeamDetailsUpdate = {};
+
+      // Validate the editable text fields with the registration rules
+      for (const field of EDITABLE_FIELDS) {
+        const value = req.body[field];
+        if (value === undefined) {
+          continue;
+        }
+        const fieldError = validateField(field, value);
+        if (fieldError) {
+          return res.status(400).json({
+            success: false,
+            error: fieldError.message,
+            code: 'VALIDATION_FAILED',
+            fieldErrors: [fieldError]
+          });
+        }
+        changes[field] = value.trim();
+      }
+
+      if (disqualified !== undefined && typeof disqualified !== 'boolean') {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid field type: disqualified must be a boolean',
+          code: 'VALIDATION_FAILED'
+        });
+      }
+
+      let team = await updateTeamDetails(eventId, uid, changes);
+
+      if (disqualified !== undefined) {
+        const reason = typeof disqualifiedReason === 'string' ? disqualifiedReason.trim() : '';
+        team = await setTeamDisqualified(eventId, uid, disqualified, reason);
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: team
+      });
+    }
+
+    if (req.method === 'DELETE') {
+      await deleteTeam(eventId, uid);
+      return res.status(200).json({
+        success: true,
+        data: { uid, deleted: true }
+      });
+    }
+
+    if (req.method === 'GET') {
+      const team = await getTeam(eventId, uid);
+      if (!team) {
+        return res.status(404).json({
+          success: false,
+          error: 'Team not found with the provided UID',
+          code: 'TEAM_NOT_FOUND'
+        });
+      }
+      return res.status(200).json({
+        success: true,
+        data: team
+      });
+    }
+
+    res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use GET, PATCH or DELETE.',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+
+  } catch (error) {
+    console.error('Admin team API error:', error);
+    sendApiError(res, error);
+  }
+}
@@ -0,0 +1,95 @@
+// API Endpoint: POST /api/admin/teams/[uid]/score
+// Organizer-only endpoint to manually adjust a team's score with a recorded reason
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { updateScore, getTeam, type Team } from '@/lib/firestore';
+import { isOrganizerRequest } from '@/lib/adminAuth';
+import { getRequestEventId } from '@/lib/events';
+import { sendApiError, type ApiErrorResponse } from '@/lib/errors';
+
+// Define the response types for better type safety
+type SuccessResponse = {
+  success: true;
+  data: Team;
+};
+
+type ApiResponse = SuccessResponse | ApiErrorResponse;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>
+) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use POST.',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  if (!isOrganizerRequest(req)) {
+    return res.status(401).json({
+      success: false,
+      error: 'Organizer authorization required',
+      code: 'UNAUTHORIZED'
+    });
+  }
+
+  const { uid } = req.query;
+  const { amount, reason } = req.body;
+
+  if (!uid || typeof uid !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Missing team UID in the URL',
+      code: 'VALIDATION_FAILED'
+    });
+  }
+
+  if (typeof amount !== 'number' || isNaN(amount) || amount === 0) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid field: amount must be a non-zero number',
+      code: 'VALIDATION_FAILED'
+    });
+  }
+
+  // Manual adjustments must always be explained in the ledger
+  if (typeof reason !== 'string' || !reason.trim()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Missing required field: reason',
+      code: 'VALIDATION_FAILED'
+    });
+  }
+
+  let eventId: string;
+  try {
+    eventId = getRequestEventId(req);
+  } catch (error) {
+    return sendApiError(res, error);
+  }
+
+  try {
+    await updateScore(eventId, uid, amount, { source: 'admin', reason: reason.trim() }, { asOrganizer: true });
+    const team = await getTeam(eventId, uid);
+
+    if (!team) {
+      return res.status(404).json({
+        success: false,
+        error: 'Team not found with the provided UID',
+        code: 'TEAM_NOT_FOUND'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: team
+    });
+
+  } catch (error) {
+    console.error('Admin score API error:', error);
+    sendApiError(res, error);
+  }
+}
@@ -0,0 +1,64 @@
+// API Endpoint: GET /api/admin/teams
+// Organizer-only endpoint returning full team records, including contact details
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getAllTeams, type Team } from '@/lib/firestore';
+import { isOrganizerRequest } from '@/lib/adminAuth';
+import { getRequestEventId } from '@/lib/events';
+import { sendApiError, type ApiErrorResponse } from '@/lib/errors';
+
+// Define the response types for better type safety
+type SuccessResponse = {
+  success: true;
+  data: {
+    teams: Team[];
+    totalTeams: number;
+  };
+};
+
+type ApiResponse = SuccessResponse | ApiErrorResponse;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>
+) {
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use GET.',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  if (!isOrganizerRequest(req)) {
+    return res.status(401).json({
+      success: false,
+      error: 'Organizer authorization required',
+      code: 'UNAUTHORIZED'
+    });
+  }
+
+  let eventId: string;
+  try {
+    eventId = getRequestEventId(req);
+  } catch (error) {
+    return sendApiError(res, error);
+  }
+
+  try {
+    const teams = await getAllTeams(eventId);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        teams,
+        totalTeams: teams.length
+      }
+    });
+
+  } catch (error) {
+    console.error('Admin teams API error:', error);
+    sendApiError(res, error);
+  }
+}
@@ -0,0 +1,24 @@
+// API Endpoint: GET /api/openapi.json
+// OpenAPI document for /api/v1/* (see lib/openapi.ts) - the source lib/apiClient.ts is generated from
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { buildOpenApiDocument } from '@/lib/openapi';
+import type { ApiErrorResponse } from '@/lib/errors';
+
+type ApiResponse = ReturnType<typeof buildOpenApiDocument> | ApiErrorResponse;
+
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>
+) {
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use GET.',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  res.status(200).json(buildOpenApiDocument());
+}
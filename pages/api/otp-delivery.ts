@@ -0,0 +1,7 @@
+// API Endpoint: GET /api/otp-delivery (deprecated)
+// Alias of /api/v1/otp-delivery, kept for game builds that predate /api/v1 (see lib/apiVersions.ts)
+
+import handler from './v1/otp-delivery';
+import { deprecatedAlias } from '@/lib/apiVersions';
+
+export default deprecatedAlias(handler, '/api/v1/otp-delivery');
@@ -0,0 +1,7 @@
+// API Endpoint: GET /api/score-events (deprecated)
+// Alias of /api/v1/score-events, kept for game builds that predate /api/v1 (see lib/apiVersions.ts)
+
+import handler from './v1/score-events';
+import { deprecatedAlias } from '@/lib/apiVersions';
+
+export default deprecatedAlias(handler, '/api/v1/score-events');
@@ -0,0 +1,14 @@
+// API Endpoint: GET /api/scoreboard/stream (deprecated)
+// Alias of /api/v1/scoreboard/stream, matching the other unversioned routes (see lib/apiVersions.ts)
+
+import handler from '../v1/scoreboard/stream';
+import { deprecatedAlias } from '@/lib/apiVersions';
+
+// Must match the v1 route: the response stays open
+export const config = {
+  api: {
+    responseLimit: false
+  }
+};
+
+export default deprecatedAlias(handler, '/api/v1/scoreboard/stream');
@@ -0,0 +1,7 @@
+// API Endpoint: POST /api/team-token (deprecated)
+// Alias of /api/v1/team-token, kept for game builds that predate /api/v1 (see lib/apiVersions.ts)
+
+import handler from './v1/team-token';
+import { deprecatedAlias } from '@/lib/apiVersions';
+
+export default deprecatedAlias(handler, '/api/v1/team-token');
@@ -0,0 +1,14 @@
+// API Endpoint: POST /api/update-score/batch (deprecated)
+// Alias of /api/v1/update-score/batch, matching the other unversioned routes (see lib/apiVersions.ts)
+
+import handler from '../v1/update-score/batch';
+import { deprecatedAlias } from '@/lib/apiVersions';
+
+// Must match the v1 route: the request signature covers the raw body
+export const config = {
+  api: {
+    bodyParser: false
+  }
+};
+
+export default deprecatedAlias(handler, '/api/v1/update-score/batch');
@@ -0,0 +1,67 @@
+// API Endpoint: GET /api/v1/otp-delivery?id=<deliveryId> (also served, deprecated, at /api/otp-delivery)
+// Delivery status of a verification SMS, using the deliveryId returned by /api/v1/register
+// Lets a client tell "still on its way" apart from "failed, request a new code"
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getSmsDelivery } from '@/lib/sms';
+import type { V1OtpDeliveryResult } from '@/lib/apiV1';
+import { type ApiErrorResponse } from '@/lib/errors';
+
+// Response contract is frozen in lib/apiV1.ts
+type SuccessResponse = V1OtpDeliveryResult;
+
+type ApiResponse = SuccessResponse | ApiErrorResponse;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>
+) {
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use GET.',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Missing required query parameter: id',
+      code: 'VALIDATION_FAILED'
+    });
+  }
+
+  try {
+    const delivery = await getSmsDelivery(id);
+
+    if (!delivery) {
+      return res.status(404).json({
+        success: false,
+        error: 'Delivery not found',
+        code: 'DELIVERY_NOT_FOUND'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        deliveryId: delivery.messageId,
+        status: delivery.status,
+        sentTo: delivery.to,
+        sentAt: new Date(delivery.sentAt).toISOString(),
+        updatedAt: new Date(delivery.updatedAt).toISOString()
+      }
+    });
+  } catch (error) {
+    console.error('OTP delivery API error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to look up delivery status',
+      code: 'INTERNAL_ERROR'
+    });
+  }
+}
@@ -0,0 +1,212 @@
+// API Endpoint: POST /api/v1/register (also served, deprecated, at /api/register)
+// This endpoint allows Unity (or other clients) to register teams programmatically
+// Registration takes two calls: the first sends a one-time code (by email or SMS,
+// as configured for the event), the second repeats the details with that code in
+// `otp` and creates the team
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { registerTeam, isTeamNameTaken, isEmailTaken } from '@/lib/firestore';
+import {
+  getRequestEventId,
+  eventExists,
+  getEventName,
+  getVerificationChannel
+} from '@/lib/events';
+import { requestOTP, verifyOTP, discardOTP, sendOTPEmail, sendOTPSMS, getClientIp } from '@/lib/otp';
+import { normalizePhoneNumber, maskPhoneNumber } from '@/lib/phone';
+import { canonicalizeEmail } from '@/lib/emailAddress';
+import type { V1RegisterCodeSent, V1RegisterCreated } from '@/lib/apiV1';
+import { sendRegistrationConfirmation } from '@/lib/notifications';
+import { cleanTeamName, isTeamNameBlocked, suggestTeamNames } from '@/lib/teamNames';
+import { validateRegistration } from '@/lib/registrationSchema';
+import {
+  sendApiError,
+  ValidationFailedError,
+  NameTakenError,
+  EmailTakenError,
+  EventNotFoundError,
+  UnauthorizedError,
+  RateLimitedError,
+  type ApiErrorResponse
+} from '@/lib/errors';
+
+// Response contracts are frozen in lib/apiV1.ts
+type SuccessResponse = V1RegisterCodeSent | V1RegisterCreated;
+
+// Errors carry `fieldErrors` (VALIDATION_FAILED, TEAM_NAME_BLOCKED) or `suggestions` (TEAM_NAME_TAKEN)
+type ApiResponse = SuccessResponse | ApiErrorResponse;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>
+) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use POST.',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  try {
+    // Event to register for (`event` query parameter or body field)
+    let eventId: string;
+    try {
+      eventId = getRequestEventId(req);
+    } catch (error) {
+      return sendApiError(res, error);
+    }
+
+    // Same rules as the registration form (lib/registrationSchema.ts)
+    const { values, errors } = validateRegistration(req.body || {});
+    if (errors.length > 0) {
+      throw new ValidationFailedError(errors[0].message, errors);
+    }
+    const { teamName, player1, player2, email, phoneNumber, otp } = values;
+
+    // Stored as tidied: NFKC, no invisible characters, single spaces
+    const cleanName = cleanTeamName(teamName);
+    if (await isTeamNameBlocked(cleanName)) {
+      const message = 'This team name is not allowed. Please choose a different name.';
+      throw new ValidationFailedError(message, [{ field: 'teamName', code: 'NOT_ALLOWED', message }], 'TEAM_NAME_BLOCKED');
+    }
+
+    // An empty code counts as absent (Unity's JsonUtility always sends every field)
+    const hasCode = otp !== '';
+
+    // Phones are stored in E.164 and emails in canonical form, so duplicates and SMS work
+    // whatever formatting was typed. Numbers need a country code unless a default is configured.
+    const e164Phone = normalizePhoneNumber(phoneNumber);
+    const canonicalEmail = canonicalizeEmail(email);
+    if (!e164Phone) {
+      const message = 'Invalid phone number. Include the country code, e.g. +14155550123.';
+      throw new ValidationFailedError(message, [{ field: 'phoneNumber', code: 'INVALID_FORMAT', message }]);
+    }
+
+    // The event decides whether the email or the phone number is verified
+    const channel = await getVerificationChannel(eventId);
+    const smsNumber = channel === 'sms' ? e164Phone : null;
+    const recipient = smsNumber || canonicalEmail;
+
+    // Step 1: no code yet - check the details can be registered, then send a code
+    if (!hasCode) {
+      if (!(await eventExists(eventId))) {
+        throw new EventNotFoundError(eventId);
+      }
+
+      const [isNameTaken, isEmailAlreadyUsed] = await Promise.all([
+        isTeamNameTaken(eventId, cleanName),
+        isEmailTaken(eventId, canonicalEmail)
+      ]);
+
+      if (isNameTaken) {
+        throw new NameTakenError(
+          cleanName,
+          await suggestTeamNames(cleanName, candidate => isTeamNameTaken(eventId, candidate))
+        );
+      }
+
+      if (isEmailAlreadyUsed) {
+        throw new EmailTakenError();
+      }
+
+      const otpRequest = await requestOTP(recipient, eventId, getClientIp(req));
+      if (!otpRequest.sent) {
+        throw new RateLimitedError(otpRequest.error, otpRequest.retryAfterSeconds, otpRequest.code);
+      }
+
+      const eventName = await getEventName(eventId);
+
+      if (smsNumber) {
+        const delivery = await sendOTPSMS(smsNumber, otpRequest.code, eventName);
+        if (!delivery.messageId) {
+          await discardOTP(recipient, eventId);
+          return res.status(502).json({
+            success: false,
+            error: `Failed to send the verification SMS: ${delivery.error || 'unknown error'}. Please try again.`,
+            code: 'OTP_DELIVERY_FAILED'
+          });
+        }
+
+        return res.status(202).json({
+          success: true,
+          data: {
+            otpSent: true,
+            channel,
+            sentTo: maskPhoneNumber(smsNumber),
+            expiresInMinutes: otpRequest.expiresInMinutes,
+            deliveryId: delivery.messageId
+          }
+        });
+      }
+
+      // Sent to the address as typed; the code is stored under the canonical one
+      if (!(await sendOTPEmail(email, otpRequest.code, eventName))) {
+        await discardOTP(recipient, eventId);
+        return res.status(502).json({
+          success: false,
+          error: 'Failed to send the verification email. Please try again.',
+          code: 'OTP_DELIVERY_FAILED'
+        });
+      }
+
+      return res.status(202).json({
+        success: true,
+        data: {
+          otpSent: true,
+          channel,
+          sentTo: email,
+          expiresInMinutes: otpRequest.expiresInMinutes
+        }
+      });
+    }
+
+    // Step 2: the code proves the caller controls the email or phone
+    const otpCheck = await verifyOTP(recipient, otp, eventId);
+    if (!otpCheck.valid) {
+      // A locked recipient has to wait; a wrong or expired code just needs another try
+      if (otpCheck.retryAfterSeconds) {
+        throw new RateLimitedError(otpCheck.error, otpCheck.retryAfterSeconds, otpCheck.code);
+      }
+      throw new UnauthorizedError(otpCheck.error, otpCheck.code);
+    }
+
+    // Register the team
+    const team = await registerTeam(
+      eventId,
+      cleanName,
+      player1,
+      player2,
+      email,
+      phoneNumber,
+      channel
+    );
+
+    // Confirmation email is best effort - the team is registered even if it fails
+    await sendRegistrationConfirmation(eventId, team);
+
+    // Return success response
+    res.status(201).json({
+      success: true,
+      data: {
+        teamNumber: team.teamNumber,
+        teamName: team.teamName,
+        uid: team.uid,
+        player1: team.player1,
+        player2: team.player2,
+        email: team.emailDisplay || team.email,
+        phoneNumber: team.phoneNumber,
+        score: team.score,
+        teamToken: team.teamToken,
+        verified: team.verified === true
+      }
+    });
+
+  } catch (error) {
+    console.error('Registration API error:', error);
+
+    // Typed errors keep their status and code (409 for a taken name or email)
+    sendApiError(res, error);
+  }
+}
\ No newline at end of file
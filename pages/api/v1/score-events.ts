@@ -0,0 +1,63 @@
+// API Endpoint: GET /api/v1/score-events (also served, deprecated, at /api/score-events)
+// This endpoint returns a team's score ledger so score disputes can be settled
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getScoreEvents, reconcileScore } from '@/lib/firestore';
+import { getRequestEventId } from '@/lib/events';
+import {
+  toV1ScoreEvent,
+  toV1ScoreReconciliation,
+  type V1ScoreEventsResult
+} from '@/lib/apiV1';
+import { sendApiError, type ApiErrorResponse } from '@/lib/errors';
+
+// Response contract is frozen in lib/apiV1.ts
+type SuccessResponse = V1ScoreEventsResult;
+
+type ApiResponse = SuccessResponse | ApiErrorResponse;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>
+) {
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use GET.',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  const { uid } = req.query;
+
+  if (!uid || typeof uid !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Missing required parameter: uid',
+      code: 'VALIDATION_FAILED'
+    });
+  }
+
+  try {
+    const eventId = getRequestEventId(req);
+
+    // Compare the stored score with the ledger total (read-only)
+    const reconciliation = await reconcileScore(eventId, uid.trim());
+    const events = await getScoreEvents(eventId, uid.trim());
+
+    res.status(200).json({
+      success: true,
+      data: {
+        events: events.map(toV1ScoreEvent),
+        reconciliation: toV1ScoreReconciliation(reconciliation)
+      }
+    });
+
+  } catch (error) {
+    console.error('Score events API error:', error);
+
+    // INVALID_EVENT_ID (400) and TEAM_NOT_FOUND (404) come through as typed errors
+    sendApiError(res, error);
+  }
+}
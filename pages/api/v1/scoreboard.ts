@@ -0,0 +1,57 @@
+// API Endpoint: GET /api/v1/scoreboard (also served, deprecated, at /api/scoreboard)
+// This endpoint returns all teams and their scores for Unity or other clients
+// Only public fields are returned - organizers get full records from /api/admin/teams
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getPublicScoreboard } from '@/lib/firestore';
+import { getRequestEventId } from '@/lib/events';
+import { toV1ScoreboardTeam, type V1ScoreboardResult } from '@/lib/apiV1';
+import { sendApiError, type ApiErrorResponse } from '@/lib/errors';
+
+// Response contract is frozen in lib/apiV1.ts
+type SuccessResponse = V1ScoreboardResult;
+
+type ApiResponse = SuccessResponse | ApiErrorResponse;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>
+) {
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use GET.',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  // Event to show (`event` query parameter, defaults to the default event)
+  let eventId: string;
+  try {
+    eventId = getRequestEventId(req);
+  } catch (error) {
+    return sendApiError(res, error);
+  }
+
+  try {
+    // Get the ranked public view of all teams in the event
+    const teams = await getPublicScoreboard(eventId);
+
+    // Return success response with team data
+    res.status(200).json({
+      success: true,
+      data: {
+        teams: teams.map(toV1ScoreboardTeam),
+        totalTeams: teams.length,
+        lastUpdated: new Date().toISOString()
+      }
+    });
+
+  } catch (error) {
+    console.error('Scoreboard API error:', error);
+    
+    // Return error response
+    sendApiError(res, error, 'Failed to fetch scoreboard data');
+  }
+}
\ No newline at end of file
@@ -0,0 +1,89 @@
+// API Endpoint: GET /api/v1/scoreboard/stream (also served, deprecated, at /api/scoreboard/stream)
+// This endpoint pushes scoreboard updates as Server-Sent Events, for Unity and venue displays:
+//   event: scoreboard   the whole ranked scoreboard (sent first, then after every change)
+//   event: score        one team's score changed
+//   event: heartbeat    every 15 seconds, so clients can tell a quiet stream from a dead one
+//   event: stream-error updates are interrupted; the last scoreboard still stands until the next one
+// Clients that reconnect with a Last-Event-ID header (or `lastEventId` query parameter)
+// receive the updates they missed. Only public fields are sent (see lib/scoreboardStream.ts).
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getRequestEventId } from '@/lib/events';
+import {
+  openScoreboardStream,
+  formatServerSentEvent,
+  createHeartbeat
+} from '@/lib/scoreboardStream';
+import { sendApiError, type ApiErrorResponse } from '@/lib/errors';
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+// How long EventSource clients wait before reconnecting after the connection drops
+const RECONNECT_DELAY_MS = 3000;
+
+// The response stays open for as long as the client is connected
+export const config = {
+  api: {
+    responseLimit: false
+  }
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiErrorResponse>
+) {
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use GET.',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  // Event to stream (`event` query parameter, defaults to the default event)
+  let eventId: string;
+  try {
+    eventId = getRequestEventId(req);
+  } catch (error) {
+    return sendApiError(res, error);
+  }
+
+  // Browsers send Last-Event-ID when EventSource reconnects; other clients may use the query parameter
+  const header = req.headers['last-event-id'];
+  const fromQuery = Array.isArray(req.query.lastEventId) ? req.query.lastEventId[0] : req.query.lastEventId;
+  const lastEventId = (Array.isArray(header) ? header[0] : header) || fromQuery || null;
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    // no-transform keeps compression from buffering the stream
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+  let close: () => void;
+  try {
+    close = openScoreboardStream(eventId, lastEventId, (update) => {
+      res.write(formatServerSentEvent(update.event, update.data, update.id));
+    });
+  } catch (error) {
+    console.error('Scoreboard stream API error:', error);
+    res.end();
+    return;
+  }
+
+  const heartbeat = setInterval(() => {
+    res.write(formatServerSentEvent('heartbeat', createHeartbeat()));
+  }, HEARTBEAT_INTERVAL_MS);
+
+  // Keep the handler running until the client goes away (the response closes with the connection)
+  await new Promise<void>((resolve) => {
+    res.on('close', () => {
+      clearInterval(heartbeat);
+      close();
+      resolve();
+    });
+  });
+}
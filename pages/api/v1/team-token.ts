@@ -0,0 +1,91 @@
+// API Endpoint: POST /api/v1/team-token (also served, deprecated, at /api/team-token)
+// Organizer-only endpoint to rotate or revoke a team's secret token (e.g. a lost phone)
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getTeam } from '@/lib/firestore';
+import { getRequestEventId } from '@/lib/events';
+import { isOrganizerRequest } from '@/lib/adminAuth';
+import { issueTeamToken, revokeTeamToken } from '@/lib/teamTokens';
+import type { V1TeamTokenResult } from '@/lib/apiV1';
+import { sendApiError, type ApiErrorResponse } from '@/lib/errors';
+
+// Response contract is frozen in lib/apiV1.ts
+type SuccessResponse = V1TeamTokenResult;
+
+type ApiResponse = SuccessResponse | ApiErrorResponse;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>
+) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use POST.',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  if (!isOrganizerRequest(req)) {
+    return res.status(401).json({
+      success: false,
+      error: 'Organizer authorization required',
+      code: 'UNAUTHORIZED'
+    });
+  }
+
+  const { uid, action } = req.body;
+
+  if (!uid || typeof uid !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Missing required field: uid',
+      code: 'VALIDATION_FAILED'
+    });
+  }
+
+  if (action !== 'rotate' && action !== 'revoke') {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid action. Use "rotate" or "revoke".',
+      code: 'VALIDATION_FAILED'
+    });
+  }
+
+  let eventId: string;
+  try {
+    eventId = getRequestEventId(req);
+  } catch (error) {
+    return sendApiError(res, error);
+  }
+
+  try {
+    if (!(await getTeam(eventId, uid.trim()))) {
+      return res.status(404).json({
+        success: false,
+        error: 'Team not found with the provided UID',
+        code: 'TEAM_NOT_FOUND'
+      });
+    }
+
+    if (action === 'revoke') {
+      await revokeTeamToken(eventId, uid.trim());
+      return res.status(200).json({
+        success: true,
+        data: { uid: uid.trim(), action }
+      });
+    }
+
+    // Rotation replaces the old token immediately
+    const teamToken = await issueTeamToken(eventId, uid.trim());
+    res.status(200).json({
+      success: true,
+      data: { uid: uid.trim(), action, teamToken }
+    });
+
+  } catch (error) {
+    console.error('Team token API error:', error);
+    sendApiError(res, error);
+  }
+}
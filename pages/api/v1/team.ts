@@ -0,0 +1,176 @@
+// API Endpoint: GET/POST /api/v1/team (also served, deprecated, at /api/team)
+// This endpoint allows Unity to retrieve team data by UID or team name within an event
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getTeam, findTeamByName, type Team } from '@/lib/firestore';
+import { getRequestEventId } from '@/lib/events';
+import { readRawBody, parseJsonBody, verifySignedRequest } from '@/lib/signature';
+import { getProvidedTeamToken, verifyTeamToken } from '@/lib/teamTokens';
+import { toV1Team, type V1TeamResult } from '@/lib/apiV1';
+import { sendApiError, type ApiErrorResponse } from '@/lib/errors';
+
+// Response contract is frozen in lib/apiV1.ts
+type SuccessResponse = V1TeamResult;
+
+type ApiResponse = SuccessResponse | ApiErrorResponse;
+
+// The request signature covers the raw body, so parse it ourselves
+export const config = {
+  api: {
+    bodyParser: false
+  }
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>
+) {
+  // Verify the HMAC signature before looking anything up
+  let rawBody = '';
+  try {
+    rawBody = await readRawBody(req);
+    const signatureCheck = await verifySignedRequest(req, rawBody);
+    if (!signatureCheck.valid) {
+      return res.status(401).json({
+        success: false,
+        error: signatureCheck.error,
+        code: signatureCheck.code
+      });
+    }
+  } catch (error) {
+    console.error('Get team API signature error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to verify request signature',
+      code: 'INTERNAL_ERROR'
+    });
+  }
+
+  try {
+    req.body = parseJsonBody(rawBody);
+  } catch (error) {
+    return res.status(400).json({
+      success: false,
+      error: 'Request body must be valid JSON',
+      code: 'INVALID_JSON'
+    });
+  }
+
+  // Event the team belongs to (`event` query parameter or body field)
+  let eventId: string;
+  try {
+    eventId = getRequestEventId(req);
+  } catch (error) {
+    return sendApiError(res, error);
+  }
+
+  if (req.method === 'GET') {
+    // Get team by UID or team name from query parameters
+    const { uid, teamName } = req.query;
+
+    if (!uid && !teamName) {
+      return res.status(400).json({
+        success: false,
+        error: 'Please provide either uid or teamName parameter',
+        code: 'VALIDATION_FAILED'
+      });
+    }
+
+    try {
+      let team: Team | null = null;
+
+      if (uid && typeof uid === 'string') {
+        // Direct access by UID (UID is the team's key)
+        team = await getTeam(eventId, uid);
+      } else if (teamName && typeof teamName === 'string') {
+        // Search by team name within the event
+        team = await findTeamByName(eventId, teamName);
+      }
+
+      if (!team) {
+        return res.status(404).json({
+          success: false,
+          error: 'Team not found',
+          code: 'TEAM_NOT_FOUND'
+        });
+      }
+
+      // Team data is only returned to the team's own client
+      const tokenCheck = await verifyTeamToken(eventId, team.uid, getProvidedTeamToken(req.headers, req.body));
+      if (!tokenCheck.valid) {
+        return res.status(401).json({
+          success: false,
+          error: tokenCheck.error,
+          code: tokenCheck.code
+        });
+      }
+
+      res.status(200).json({
+        success: true,
+        data: toV1Team(team)
+      });
+
+    } catch (error) {
+      console.error('Get team API error:', error);
+      sendApiError(res, error);
+    }
+
+  } else if (req.method === 'POST') {
+    // Alternative way to get team data via POST body
+    const { uid, teamName } = req.body;
+
+    if (!uid && !teamName) {
+      return res.status(400).json({
+        success: false,
+        error: 'Please provide either uid or teamName in request body',
+        code: 'VALIDATION_FAILED'
+      });
+    }
+
+    try {
+      let team: Team | null = null;
+
+      if (uid) {
+        // Direct access by UID (UID is the team's key)
+        team = await getTeam(eventId, String(uid));
+      } else if (teamName) {
+        // Search by team name within the event
+        team = await findTeamByName(eventId, String(teamName));
+      }
+
+      if (!team) {
+        return res.status(404).json({
+          success: false,
+          error: 'Team not found',
+          code: 'TEAM_NOT_FOUND'
+        });
+      }
+
+      // Team data is only returned to the team's own client
+      const tokenCheck = await verifyTeamToken(eventId, team.uid, getProvidedTeamToken(req.headers, req.body));
+      if (!tokenCheck.valid) {
+        return res.status(401).json({
+          success: false,
+          error: tokenCheck.error,
+          code: tokenCheck.code
+        });
+      }
+
+      res.status(200).json({
+        success: true,
+        data: toV1Team(team)
+      });
+
+    } catch (error) {
+      console.error('Get team API error:', error);
+      sendApiError(res, error);
+    }
+
+  } else {
+    res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use GET or POST.',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,231 @@
+// API Endpoint: POST /api/v1/update-score (also served, deprecated, at /api/update-score)
+// This endpoint allows Unity to update team scores using the UID
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { updateScore, isReservedScoreSource } from '@/lib/firestore';
+import {
+  getIdempotencyKey,
+  fingerprintRequest,
+  matchesFingerprint,
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  releaseIdempotencyKey
+} from '@/lib/idempotency';
+import { readRawBody, parseJsonBody, verifySignedRequest } from '@/lib/signature';
+import { getProvidedTeamToken, verifyTeamToken } from '@/lib/teamTokens';
+import { getRequestEventId } from '@/lib/events';
+import type { V1UpdateScoreResult } from '@/lib/apiV1';
+import { sendApiError, toErrorResponse, type ApiErrorResponse } from '@/lib/errors';
+
+// Scope for idempotency keys sent to this endpoint (suffixed with the event ID and team UID)
+const IDEMPOTENCY_SCOPE = 'update-score';
+
+// Response contract is frozen in lib/apiV1.ts
+type SuccessResponse = V1UpdateScoreResult;
+
+type ApiResponse = SuccessResponse | ApiErrorResponse;
+
+// The request signature covers the raw body, so parse it ourselves
+export const config = {
+  api: {
+    bodyParser: false
+  }
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>
+) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use POST.',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  // Key used to detect retried requests (header or body eventId), scoped to the event and team
+  let idempotencyKey: string | null = null;
+  let idempotencyScope = IDEMPOTENCY_SCOPE;
+  let fingerprint = '';
+
+  // Send the response and remember it for the idempotency key, if one was claimed
+  const respond = async (statusCode: number, body: ApiResponse) => {
+    if (idempotencyKey) {
+      if (statusCode >= 500) {
+        await releaseIdempotencyKey(idempotencyScope, idempotencyKey).catch(() => undefined);
+      } else {
+        await completeIdempotencyKey(idempotencyScope, idempotencyKey, fingerprint, statusCode, body).catch((error) => {
+          console.error('Failed to store idempotency result:', error);
+        });
+      }
+    }
+    return res.status(statusCode).json(body);
+  };
+
+  try {
+    // Verify the HMAC signature before trusting anything in the body
+    const rawBody = await readRawBody(req);
+    const signatureCheck = await verifySignedRequest(req, rawBody);
+    if (!signatureCheck.valid) {
+      return res.status(401).json({
+        success: false,
+        error: signatureCheck.error,
+        code: signatureCheck.code
+      });
+    }
+
+    try {
+      req.body = parseJsonBody(rawBody);
+    } catch (error) {
+      return res.status(400).json({
+        success: false,
+        error: 'Request body must be valid JSON',
+        code: 'INVALID_JSON'
+      });
+    }
+
+    // Event the team belongs to (`event` query parameter or body field)
+    let eventId: string;
+    try {
+      eventId = getRequestEventId(req);
+    } catch (error) {
+      return sendApiError(res, error);
+    }
+
+    // Extract data from request body
+    const { uid, scoreIncrement, source, reason } = req.body;
+
+    // Validate required fields
+    if (!uid) {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing required field: uid',
+        code: 'VALIDATION_FAILED'
+      });
+    }
+
+    if (scoreIncrement === undefined || scoreIncrement === null) {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing required field: scoreIncrement',
+        code: 'VALIDATION_FAILED'
+      });
+    }
+
+    // Validate field types
+    if (typeof uid !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid field type: uid must be a string',
+        code: 'VALIDATION_FAILED'
+      });
+    }
+
+    if (typeof scoreIncrement !== 'number' || isNaN(scoreIncrement)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid field type: scoreIncrement must be a number',
+        code: 'VALIDATION_FAILED'
+      });
+    }
+
+    if ((source !== undefined && typeof source !== 'string') || (reason !== undefined && typeof reason !== 'string')) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid field type: source and reason must be strings',
+        code: 'VALIDATION_FAILED'
+      });
+    }
+
+    if (source && isReservedScoreSource(source)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid source: "${source.trim()}" is reserved for the server`,
+        code: 'VALIDATION_FAILED'
+      });
+    }
+
+    // Validate score increment is reasonable (prevent abuse)
+    if (scoreIncrement < -1000000 || scoreIncrement > 1000000) {
+      return res.status(400).json({
+        success: false,
+        error: 'Score increment must be between -1,000,000 and 1,000,000',
+        code: 'VALIDATION_FAILED'
+      });
+    }
+
+    // Only the team's own client may change its score
+    const tokenCheck = await verifyTeamToken(eventId, uid.trim(), getProvidedTeamToken(req.headers, req.body));
+    if (!tokenCheck.valid) {
+      return res.status(401).json({
+        success: false,
+        error: tokenCheck.error,
+        code: tokenCheck.code
+      });
+    }
+
+    try {
+      idempotencyKey = getIdempotencyKey(req);
+    } catch (error) {
+      return res.status(400).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Invalid idempotency key',
+        code: 'INVALID_IDEMPOTENCY_KEY'
+      });
+    }
+
+    const teamUid = uid.trim();
+    const details = {
+      source: source ? source.trim() : 'unity',
+      reason: reason ? reason.trim() : ''
+    };
+
+    // Replay the original result if this key has already been processed for this team
+    idempotencyScope = `${IDEMPOTENCY_SCOPE}:${eventId}:${teamUid}`;
+    fingerprint = fingerprintRequest({ scoreIncrement, ...details });
+    if (idempotencyKey) {
+      const claim = await claimIdempotencyKey<ApiResponse>(idempotencyScope, idempotencyKey, fingerprint);
+
+      if (!claim.claimed) {
+        if (!matchesFingerprint(claim.record, fingerprint)) {
+          idempotencyKey = null; // Belongs to the original request
+          return res.status(422).json({
+            success: false,
+            error: 'This idempotency key was already used for a different score update. Use a new key for each event.',
+            code: 'IDEMPOTENCY_KEY_REUSED'
+          });
+        }
+
+        if (claim.record.status === 'completed' && claim.record.statusCode && claim.record.body) {
+          res.setHeader('Idempotent-Replayed', 'true');
+          return res.status(claim.record.statusCode).json(claim.record.body);
+        }
+
+        idempotencyKey = null; // Not ours to complete or release
+        return res.status(409).json({
+          success: false,
+          error: 'A request with this idempotency key is still being processed. Retry shortly.',
+          code: 'IDEMPOTENCY_IN_PROGRESS'
+        });
+      }
+    }
+
+    // Update the score (recorded in the score ledger with its source and reason)
+    await updateScore(eventId, teamUid, scoreIncrement, details);
+
+    // Return success response
+    return respond(200, {
+      success: true,
+      message: `Score updated successfully. Added ${scoreIncrement} points to team ${uid}.`
+    });
+
+  } catch (error) {
+    console.error('Update score API error:', error);
+
+    // TEAM_NOT_FOUND (404) and TEAM_DISQUALIFIED (403) are remembered for the idempotency key
+    const { status, body } = toErrorResponse(error);
+    return respond(status, body);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,288 @@
+// API Endpoint: POST /api/v1/update-score/batch (also served, deprecated, at /api/update-score/batch)
+// This endpoint lets Unity send the scoring events it queued while offline in one request.
+// The events belong to one team and are applied in order in a single write; each event's
+// eventId is an idempotency key, so resending a batch (or events already sent one by one
+// to /api/v1/update-score) never counts them twice.
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { updateScoreBatch, isReservedScoreSource, type ScoreChange } from '@/lib/firestore';
+import {
+  parseIdempotencyKey,
+  fingerprintRequest,
+  matchesFingerprint,
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  releaseIdempotencyKey
+} from '@/lib/idempotency';
+import { readRawBody, parseJsonBody, verifySignedRequest } from '@/lib/signature';
+import { getProvidedTeamToken, verifyTeamToken } from '@/lib/teamTokens';
+import { getRequestEventId } from '@/lib/events';
+import type { V1ScoreBatchEventResult, V1UpdateScoreBatchResult, V1UpdateScoreResult } from '@/lib/apiV1';
+import { sendApiError, type ApiErrorResponse } from '@/lib/errors';
+
+// Same scope as /api/v1/update-score (suffixed with the event ID and team UID), so both share their keys
+const IDEMPOTENCY_SCOPE = 'update-score';
+
+// Upper bound on events per request, to keep a single write reasonably small
+const MAX_BATCH_EVENTS = 100;
+
+// Response contract is frozen in lib/apiV1.ts
+type SuccessResponse = V1UpdateScoreBatchResult;
+
+type ApiResponse = SuccessResponse | ApiErrorResponse;
+
+// The request signature covers the raw body, so parse it ourselves
+export const config = {
+  api: {
+    bodyParser: false
+  }
+};
+
+/**
+ * Check one queued event and turn it into a score change
+ * Returns the problem instead when the event can't be applied
+ */
+function parseBatchEvent(entry: Record<string, unknown>): { change: ScoreChange } | { error: string } {
+  const { scoreIncrement, clientTimestamp, source, reason } = entry;
+
+  if (typeof scoreIncrement !== 'number' || isNaN(scoreIncrement)) {
+    return { error: 'Invalid field type: scoreIncrement must be a number' };
+  }
+  if (scoreIncrement < -1000000 || scoreIncrement > 1000000) {
+    return { error: 'Score increment must be between -1,000,000 and 1,000,000' };
+  }
+  if (typeof clientTimestamp !== 'number' || !isFinite(clientTimestamp) || clientTimestamp <= 0) {
+    return { error: 'Invalid field type: clientTimestamp must be a Unix time in milliseconds' };
+  }
+  if ((source !== undefined && typeof source !== 'string') || (reason !== undefined && typeof reason !== 'string')) {
+    return { error: 'Invalid field type: source and reason must be strings' };
+  }
+  if (source && isReservedScoreSource(source)) {
+    return { error: `Invalid source: "${source.trim()}" is reserved for the server` };
+  }
+
+  return {
+    change: {
+      amount: scoreIncrement,
+      source: source ? source.trim() : 'unity',
+      reason: reason ? reason.trim() : '',
+      occurredAt: clientTimestamp
+    }
+  };
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>
+) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use POST.',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+  }
+
+  // Verify the HMAC signature before trusting anything in the body
+  let rawBody: string;
+  try {
+    rawBody = await readRawBody(req);
+    const signatureCheck = await verifySignedRequest(req, rawBody);
+    if (!signatureCheck.valid) {
+      return res.status(401).json({
+        success: false,
+        error: signatureCheck.error,
+        code: signatureCheck.code
+      });
+    }
+  } catch (error) {
+    console.error('Update score batch API error:', error);
+    return sendApiError(res, error);
+  }
+
+  try {
+    req.body = parseJsonBody(rawBody);
+  } catch (error) {
+    return res.status(400).json({
+      success: false,
+      error: 'Request body must be valid JSON',
+      code: 'INVALID_JSON'
+    });
+  }
+
+  // Event the team belongs to (`event` query parameter or body field)
+  let eventId: string;
+  try {
+    eventId = getRequestEventId(req);
+  } catch (error) {
+    return sendApiError(res, error);
+  }
+
+  const { uid, events } = req.body || {};
+
+  // Validate the batch itself; problems with single events are reported per event below
+  if (!uid || typeof uid !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Missing required field: uid',
+      code: 'VALIDATION_FAILED'
+    });
+  }
+
+  if (!Array.isArray(events) || events.length === 0) {
+    return res.status(400).json({
+      success: false,
+      error: 'Missing required field: events (a non-empty array)',
+      code: 'VALIDATION_FAILED'
+    });
+  }
+
+  if (events.length > MAX_BATCH_EVENTS) {
+    return res.status(400).json({
+      success: false,
+      error: `A batch may contain at most ${MAX_BATCH_EVENTS} events`,
+      code: 'VALIDATION_FAILED'
+    });
+  }
+
+  const teamUid = uid.trim();
+  const idempotencyScope = `${IDEMPOTENCY_SCOPE}:${eventId}:${teamUid}`;
+
+  // Keys claimed by this request, completed after the write or released if it fails
+  const claimedKeys: string[] = [];
+
+  try {
+    // Only the team's own client may change its score
+    const tokenCheck = await verifyTeamToken(eventId, teamUid, getProvidedTeamToken(req.headers, req.body));
+    if (!tokenCheck.valid) {
+      return res.status(401).json({
+        success: false,
+        error: tokenCheck.error,
+        code: tokenCheck.code
+      });
+    }
+
+    const results: V1ScoreBatchEventResult[] = [];
+    const changes: ScoreChange[] = [];
+    const fingerprints: string[] = []; // Of each change, for completing its key
+    const seenKeys: Record<string, boolean> = {};
+
+    // Decide what happens to each event, in order
+    for (let index = 0; index < events.length; index++) {
+      const entry: unknown = events[index];
+      const record = entry && typeof entry === 'object' ? entry as Record<string, unknown> : null;
+      const rawKey = record ? record.eventId : undefined;
+
+      let key: string | null;
+      try {
+        key = parseIdempotencyKey(rawKey);
+      } catch (error) {
+        results.push({
+          index,
+          eventId: String(rawKey),
+          status: 'rejected',
+          code: 'INVALID_IDEMPOTENCY_KEY',
+          error: error instanceof Error ? error.message : 'Invalid idempotency key'
+        });
+        continue;
+      }
+
+      if (!key) {
+        results.push({
+          index,
+          eventId: '',
+          status: 'rejected',
+          code: 'VALIDATION_FAILED',
+          error: 'Missing required field: eventId'
+        });
+        continue;
+      }
+
+      const parsed = record ? parseBatchEvent(record) : { error: 'Each event must be an object' };
+      if ('error' in parsed) {
+        results.push({ index, eventId: key, status: 'rejected', code: 'VALIDATION_FAILED', error: parsed.error });
+        continue;
+      }
+
+      // The same event queued twice in one batch
+      if (seenKeys[key]) {
+        results.push({ index, eventId: key, status: 'duplicate' });
+        continue;
+      }
+      seenKeys[key] = true;
+
+      const change = parsed.change;
+      // Same fields as /api/v1/update-score fingerprints, so a key is recognised on either route
+      const fingerprint = fingerprintRequest({
+        scoreIncrement: change.amount,
+        source: change.source,
+        reason: change.reason
+      });
+
+      const claim = await claimIdempotencyKey(idempotencyScope, key, fingerprint);
+      if (!claim.claimed) {
+        if (!matchesFingerprint(claim.record, fingerprint)) {
+          results.push({
+            index,
+            eventId: key,
+            status: 'rejected',
+            code: 'IDEMPOTENCY_KEY_REUSED',
+            error: 'This eventId was already used for a different score update. Use a new eventId for each event.'
+          });
+        } else if (claim.record.status === 'completed') {
+          results.push({ index, eventId: key, status: 'duplicate' });
+        } else {
+          results.push({
+            index,
+            eventId: key,
+            status: 'rejected',
+            code: 'IDEMPOTENCY_IN_PROGRESS',
+            error: 'An event with this eventId is still being processed. Retry shortly.'
+          });
+        }
+        continue;
+      }
+
+      claimedKeys.push(key);
+      results.push({ index, eventId: key, status: 'applied' });
+      changes.push(change);
+      fingerprints.push(fingerprint);
+    }
+
+    // Apply every new event in one write
+    if (changes.length > 0) {
+      await updateScoreBatch(eventId, teamUid, changes);
+    }
+
+    // Remember each applied event like /api/v1/update-score would, so single retries replay it
+    await Promise.all(claimedKeys.map((key, i) => {
+      const body: V1UpdateScoreResult = {
+        success: true,
+        message: `Score updated successfully. Added ${changes[i].amount} points to team ${teamUid}.`
+      };
+      return completeIdempotencyKey(idempotencyScope, key, fingerprints[i], 200, body).catch((error) => {
+        console.error('Failed to store idempotency result:', error);
+      });
+    }));
+
+    res.status(200).json({
+      success: true,
+      data: {
+        uid: teamUid,
+        applied: changes.length,
+        scoreIncrement: changes.reduce((total, change) => total + change.amount, 0),
+        results
+      }
+    });
+
+  } catch (error) {
+    console.error('Update score batch API error:', error);
+
+    // Nothing was applied, so the events may be sent again
+    await Promise.all(claimedKeys.map(key =>
+      releaseIdempotencyKey(idempotencyScope, key).catch(() => undefined)
+    ));
+    sendApiError(res, error);
+  }
+}
@@ -3,10 +3,23 @@
 
 import { useState, useEffect } from 'react';
 import Head from 'next/head';
+import { useRouter } from 'next/router';
 import Layout from '@/components/Layout';
-import { registerTeam, type Team } from '@/lib/firestore';
+import { registerTeam, type RegisterCreated } from '@/lib/apiClient';
+import {
+  validateRegistration,
+  TEAM_NAME_MIN_LENGTH,
+  TEAM_NAME_MAX_LENGTH,
+  type FieldError,
+  type RegistrationField
+} from '@/lib/registrationSchema';
+import { getPageEventId } from '@/lib/eventIds';
 
 export default function Home() {
+  // Event to register for, selected with ?event=<eventId>
+  const router = useRouter();
+  const eventId = getPageEventId(router.query.event);
+
   // State to manage form data
   const [formData, setFormData] = useState({
     teamName: '',
@@ -18,8 +31,16 @@ export default function Home() {
 
   // State to manage UI states
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [registeredTeam, setRegisteredTeam] = useState<Team | null>(null);
+  const [registeredTeam, setRegisteredTeam] = useState<RegisterCreated['data'] | null>(null);
   const [error, setError] = useState('');
+  // Two-step registration: once a code was sent, the details are locked until it's entered
+  const [otpSent, setOtpSent] = useState(false);
+  const [otp, setOtp] = useState('');
+  const [notice, setNotice] = useState('');
+  // Free names offered by the API when the chosen crew name is taken
+  const [nameSuggestions, setNameSuggestions] = useState<string[]>([]);
+  // Per-field problems from the shared registration schema (or the API), shown under each input
+  const [fieldErrors, setFieldErrors] = useState<Partial<Record<RegistrationField, string>>>({});
   const [mousePosition, setMousePosition] = useState({ x: 0, y: 0 });
   const [focusedField, setFocusedField] = useState('');
 
@@ -39,6 +60,58 @@ export default function Home() {
       ...prev,
       [name]: value
     }));
+    // Editing a field clears its error
+    setFieldErrors(prev => ({ ...prev, [name]: undefined }));
+  };
+
+  // Show the first error for each field
+  const showFieldErrors = (errors: FieldError[]) => {
+    const byField: Partial<Record<RegistrationField, string>> = {};
+    errors.forEach(fieldError => {
+      byField[fieldError.field] = byField[fieldError.field] || fieldError.message;
+    });
+    setFieldErrors(byField);
+  };
+
+  // Error text under an input, linked to it for screen readers
+  const renderFieldError = (field: RegistrationField) => fieldErrors[field] && (
+    <div id={`${field}-error`} className="field-error" role="alert">{fieldErrors[field]}</div>
+  );
+
+  const fieldProps = (field: RegistrationField) => ({
+    className: fieldErrors[field] ? 'form-input input-error' : 'form-input',
+    'aria-invalid': fieldErrors[field] ? true : undefined,
+    'aria-describedby': fieldErrors[field] ? `${field}-error` : undefined
+  });
+
+  // Send the registration to the API - without a code this sends one, with a code it creates the team
+  const submitRegistration = async (code?: string) => {
+    const result = await registerTeam({
+      teamName: formData.teamName.trim(),
+      player1: formData.player1.trim(),
+      player2: formData.player2.trim(),
+      email: formData.email.trim(),
+      phoneNumber: formData.phoneNumber.trim(),
+      ...(code !== undefined ? { otp: code.trim() } : {})
+    }, { event: eventId });
+
+    if (!result.success) {
+      setNameSuggestions(result.suggestions || []);
+      showFieldErrors(result.fieldErrors || []);
+      throw new Error(result.error || 'Registration failed');
+    }
+    return result.data;
+  };
+
+  // Request a (new) verification code for the current details
+  const requestCode = async () => {
+    const sent = await submitRegistration();
+    if (!('otpSent' in sent)) {
+      throw new Error('Registration failed');
+    }
+    setOtpSent(true);
+    setOtp('');
+    setNotice(`We sent a 6-digit code by ${sent.channel === 'sms' ? 'text message' : 'email'} to ${sent.sentTo}. Enter it below to finish enlisting.`);
   };
 
   // Handle form submission
@@ -47,42 +120,35 @@ export default function Home() {
     
     // Reset previous states
     setError('');
+    setNameSuggestions([]);
+    setFieldErrors({});
     setIsSubmitting(true);
 
     try {
-      // Validate form data
-      if (!formData.teamName.trim() || !formData.player1.trim() || !formData.player2.trim() || !formData.email.trim() || !formData.phoneNumber.trim()) {
-        throw new Error('Please fill in all fields');
-      }
-
-      // Basic email validation
-      const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-      if (!emailRegex.test(formData.email)) {
-        throw new Error('Please enter a valid email address');
+      // Same rules the API applies (lib/registrationSchema.ts)
+      const { errors } = validateRegistration({ ...formData, otp: otpSent ? otp : '' });
+      if (errors.length > 0) {
+        showFieldErrors(errors);
+        throw new Error('Please fix the highlighted fields');
       }
 
-      // Basic phone number validation (allow various formats)
-      const phoneRegex = /^[\+]?[\d\s\-\(\)]{10,15}$/;
-      if (!phoneRegex.test(formData.phoneNumber.trim())) {
-        throw new Error('Please enter a valid phone number');
+      if (!otpSent) {
+        // Step 1: send a verification code
+        await requestCode();
+        return;
       }
 
-      // Team name validation
-      if (formData.teamName.trim().length < 2 || formData.teamName.trim().length > 30) {
-        throw new Error('Team name must be between 2 and 30 characters');
+      // Step 2: register the team with the code
+      const team = await submitRegistration(otp);
+      if ('otpSent' in team) {
+        throw new Error('Registration failed');
       }
 
-      // Register the team
-      const team = await registerTeam(
-        formData.teamName.trim(),
-        formData.player1.trim(),
-        formData.player2.trim(),
-        formData.email.trim(),
-        formData.phoneNumber.trim()
-      );
-
       // Show success message
       setRegisteredTeam(team);
+      setOtpSent(false);
+      setOtp('');
+      setNotice('');
       
       // Clear the form
       setFormData({
@@ -100,6 +166,27 @@ export default function Home() {
     }
   };
 
+  // Resend the code, e.g. when it expired or never arrived
+  const handleResendCode = async () => {
+    setError('');
+    setIsSubmitting(true);
+    try {
+      await requestCode();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Go back to editing the details (a new code is needed afterwards)
+  const handleChangeDetails = () => {
+    setOtpSent(false);
+    setOtp('');
+    setNotice('');
+    setError('');
+  };
+
   // Handle registering another team
   const handleRegisterAnother = () => {
     setRegisteredTeam(null);
@@ -602,6 +689,18 @@ export default function Home() {
           margin-bottom: 1.5rem;
         }
 
+        .form-input.input-error {
+          border-color: #d32f2f;
+          box-shadow: 0 0 0 3px rgba(244, 67, 54, 0.2);
+        }
+
+        .field-error {
+          margin-top: 0.4rem;
+          color: #d32f2f;
+          font-size: 0.9rem;
+          font-weight: 500;
+        }
+
         .form-group label {
           display: block;
           margin-bottom: 0.5rem;
@@ -816,6 +915,24 @@ export default function Home() {
                 }}>
                   Enter this ID in the AR app to begin your treasure hunting quest!
                 </p>
+                <p style={{ 
+                  margin: '1rem 0 0 0', 
+                  fontSize: '0.9rem',
+                  fontWeight: '500'
+                }}>
+                  Secret crew token (keep it private, it is shown only once): 
+                  <code style={{
+                    backgroundColor: '#333', 
+                    color: 'white', 
+                    padding: '6px 12px', 
+                    borderRadius: '10px', 
+                    margin: '0.5rem',
+                    display: 'inline-block',
+                    wordBreak: 'break-all'
+                  }}>
+                    {registeredTeam.teamToken}
+                  </code>
+                </p>
               </div>
 
               <button 
@@ -901,11 +1018,11 @@ export default function Home() {
                   onChange={handleInputChange}
                   onFocus={() => setFocusedField('teamName')}
                   onBlur={() => setFocusedField('')}
-                  className="form-input"
-                  placeholder="Enter your legendary crew name (2-30 characters)"
+                  {...fieldProps('teamName')}
+                  placeholder={`Enter your legendary crew name (${TEAM_NAME_MIN_LENGTH}-${TEAM_NAME_MAX_LENGTH} characters)`}
                   required
-                  disabled={isSubmitting}
-                  maxLength={30}
+                  disabled={isSubmitting || otpSent}
+                  maxLength={TEAM_NAME_MAX_LENGTH}
                   style={{
                     fontSize: '1.1rem',
                     fontWeight: '500',
@@ -913,6 +1030,27 @@ export default function Home() {
                     borderRadius: '15px'
                   }}
                 />
+                {renderFieldError('teamName')}
+                {nameSuggestions.length > 0 && (
+                  <div style={{ marginTop: '0.5rem', display: 'flex', gap: '0.5rem', flexWrap: 'wrap', alignItems: 'center' }}>
+                    <span>Try:</span>
+                    {nameSuggestions.map(suggestion => (
+                      <button
+                        key={suggestion}
+                        type="button"
+                        className="btn"
+                        style={{ width: 'auto', padding: '0.25rem 0.75rem', fontSize: '0.9rem' }}
+                        onClick={() => {
+                          setFormData(prev => ({ ...prev, teamName: suggestion }));
+                          setNameSuggestions([]);
+                          setError('');
+                        }}
+                      >
+                        {suggestion}
+                      </button>
+                    ))}
+                  </div>
+                )}
               </div>
 
               {/* Captain (Player 1) */}
@@ -926,16 +1064,17 @@ export default function Home() {
                   onChange={handleInputChange}
                   onFocus={() => setFocusedField('player1')}
                   onBlur={() => setFocusedField('')}
-                  className="form-input"
+                  {...fieldProps('player1')}
                   placeholder="Enter the captain's name"
                   required
-                  disabled={isSubmitting}
+                  disabled={isSubmitting || otpSent}
                   style={{
                     fontSize: '1rem',
                     padding: '1rem 1.5rem',
                     borderRadius: '15px'
                   }}
                 />
+                {renderFieldError('player1')}
               </div>
 
               {/* First Mate (Player 2) */}
@@ -949,16 +1088,17 @@ export default function Home() {
                   onChange={handleInputChange}
                   onFocus={() => setFocusedField('player2')}
                   onBlur={() => setFocusedField('')}
-                  className="form-input"
+                  {...fieldProps('player2')}
                   placeholder="Enter the first mate's name"
                   required
-                  disabled={isSubmitting}
+                  disabled={isSubmitting || otpSent}
                   style={{
                     fontSize: '1rem',
                     padding: '1rem 1.5rem',
                     borderRadius: '15px'
                   }}
                 />
+                {renderFieldError('player2')}
               </div>
 
               {/* Crew Contact Email */}
@@ -972,16 +1112,17 @@ export default function Home() {
                   onChange={handleInputChange}
                   onFocus={() => setFocusedField('email')}
                   onBlur={() => setFocusedField('')}
-                  className="form-input"
+                  {...fieldProps('email')}
                   placeholder="Enter crew's email address"
                   required
-                  disabled={isSubmitting}
+                  disabled={isSubmitting || otpSent}
                   style={{
                     fontSize: '1rem',
                     padding: '1rem 1.5rem',
                     borderRadius: '15px'
                   }}
                 />
+                {renderFieldError('email')}
               </div>
 
               {/* Communication Device (Phone) */}
@@ -995,18 +1136,60 @@ export default function Home() {
                   onChange={handleInputChange}
                   onFocus={() => setFocusedField('phoneNumber')}
                   onBlur={() => setFocusedField('')}
-                  className="form-input"
+                  {...fieldProps('phoneNumber')}
                   placeholder="Enter phone number (e.g., +1234567890)"
                   required
-                  disabled={isSubmitting}
+                  disabled={isSubmitting || otpSent}
                   style={{
                     fontSize: '1rem',
                     padding: '1rem 1.5rem',
                     borderRadius: '15px'
                   }}
                 />
+                {renderFieldError('phoneNumber')}
               </div>
 
+              {/* Verification code - shown once a code was sent */}
+              {otpSent && (
+                <div className="form-group">
+                  {notice && <div className="success-message">{notice}</div>}
+                  <label htmlFor="otp">🔑 Verification Code *</label>
+                  <input
+                    type="text"
+                    id="otp"
+                    name="otp"
+                    value={otp}
+                    onChange={(e) => {
+                      setOtp(e.target.value);
+                      setFieldErrors(prev => ({ ...prev, otp: undefined }));
+                    }}
+                    {...fieldProps('otp')}
+                    placeholder="Enter the 6-digit code we sent you"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    pattern="\d{6}"
+                    maxLength={6}
+                    required
+                    disabled={isSubmitting}
+                    style={{
+                      fontSize: '1.1rem',
+                      letterSpacing: '0.3em',
+                      padding: '1rem 1.5rem',
+                      borderRadius: '15px'
+                    }}
+                  />
+                  {renderFieldError('otp')}
+                  <div style={{ display: 'flex', gap: '1rem', marginTop: '0.5rem' }}>
+                    <button type="button" className="btn" onClick={handleResendCode} disabled={isSubmitting}>
+                      Resend code
+                    </button>
+                    <button type="button" className="btn" onClick={handleChangeDetails} disabled={isSubmitting}>
+                      Change details
+                    </button>
+                  </div>
+                </div>
+              )}
+
               {/* Submit Button */}
               <button 
                 type="submit" 
@@ -1019,7 +1202,9 @@ export default function Home() {
                   marginTop: '1rem'
                 }}
               >
-                {isSubmitting ? '🗺️ Preparing Your Adventure...' : '⚔️ Enlist Crew & Begin Adventure'}
+                {isSubmitting
+                  ? '🗺️ Preparing Your Adventure...'
+                  : otpSent ? '⚔️ Verify & Enlist Crew' : '📧 Send Verification Code'}
               </button>
             </form>
           )}
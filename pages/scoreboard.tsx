@@ -1,21 +1,31 @@
 // Live AR Treasure Hunt Scoreboard
 // Real-time leaderboard for Curiospark's AR Treasure Hunt
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect } from 'react';
 import Head from 'next/head';
+import { useRouter } from 'next/router';
 import Layout from '@/components/Layout';
-import { subscribeToScoreboard, type Team } from '@/lib/firestore';
+import {
+  streamScoreboardUrl,
+  type ScoreboardTeam,
+  type ScoreboardSnapshot,
+  type ScoreChangeEvent
+} from '@/lib/apiClient';
+import { getPageEventId } from '@/lib/eventIds';
 
 export default function Scoreboard() {
+  // Event to show, selected with ?event=<eventId>
+  const router = useRouter();
+  const eventId = getPageEventId(router.query.event);
+
   // State to store teams data
-  const [teams, setTeams] = useState<Team[]>([]);
+  const [teams, setTeams] = useState<ScoreboardTeam[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState('');
   const [lastUpdated, setLastUpdated] = useState<Date>(new Date());
   const [connectionStatus, setConnectionStatus] = useState<'connecting' | 'connected' | 'error'>('connecting');
   const [newScoreAnimation, setNewScoreAnimation] = useState<string>('');
   const [scrollY, setScrollY] = useState(0);
-  const previousScores = useRef<Map<string, number>>(new Map());
 
   // Handle scroll for parallax effects
   useEffect(() => {
@@ -25,59 +35,63 @@ export default function Scoreboard() {
   }, []);
 
   useEffect(() => {
-    let retryCount = 0;
-    const maxRetries = 3;
+    // Wait until the query string is parsed so we stream the right event
+    if (!router.isReady) {
+      return;
+    }
+
+    // The browser reconnects by itself and resumes from the last event it received
+    const source = new EventSource(streamScoreboardUrl({ event: eventId }));
+    let animationTimer: ReturnType<typeof setTimeout> | undefined;
+
+    source.addEventListener('scoreboard', (message) => {
+      const snapshot: ScoreboardSnapshot = JSON.parse((message as MessageEvent).data);
+      setTeams(snapshot.teams);
+      setIsLoading(false);
+      setLastUpdated(new Date(snapshot.lastUpdated));
+      setError('');
+      setConnectionStatus('connected');
+    });
 
-    const setupListener = () => {
-      try {
-        console.log('Setting up scoreboard listener...');
-        
-        // Set up real-time listener for scoreboard updates
-        const unsubscribe = subscribeToScoreboard((updatedTeams) => {
-          console.log('Scoreboard updated:', updatedTeams);
-          
-          // Check for score changes to trigger animations
-          updatedTeams.forEach(team => {
-            const previousScore = previousScores.current.get(team.teamName) || 0;
-            if (team.score > previousScore) {
-              setNewScoreAnimation(team.teamName);
-              setTimeout(() => setNewScoreAnimation(''), 3000);
-            }
-            previousScores.current.set(team.teamName, team.score);
-          });
-
-          setTeams(updatedTeams);
-          setIsLoading(false);
-          setLastUpdated(new Date());
-          setError('');
-          setConnectionStatus('connected');
-          retryCount = 0; // Reset retry count on success
-        });
-
-        return unsubscribe;
-      } catch (error) {
-        console.error('Error setting up listener:', error);
-        setConnectionStatus('error');
-        
-        if (retryCount < maxRetries) {
-          retryCount++;
-          setTimeout(setupListener, 2000 * retryCount);
-        } else {
-          setError('Failed to connect to live updates. Please refresh the page.');
-          setIsLoading(false);
+    // Highlight teams as their scores go up
+    source.addEventListener('score', (message) => {
+      const change: ScoreChangeEvent = JSON.parse((message as MessageEvent).data);
+      if (change.change > 0) {
+        setNewScoreAnimation(change.teamName);
+        if (animationTimer) {
+          clearTimeout(animationTimer);
         }
+        animationTimer = setTimeout(() => setNewScoreAnimation(''), 3000);
       }
+    });
+
+    // The server lost its database listener; keep the last scoreboard until the next one arrives
+    source.addEventListener('stream-error', () => {
+      setConnectionStatus('error');
+    });
+
+    source.onopen = () => {
+      setConnectionStatus('connected');
     };
 
-    const unsubscribe = setupListener();
+    source.onerror = () => {
+      setConnectionStatus('error');
 
-    // Cleanup function to unsubscribe when component unmounts
+      // A closed stream was refused (e.g. an unknown event) and is not retried
+      if (source.readyState === EventSource.CLOSED) {
+        setError('Could not connect to live updates. Refresh the page to try again.');
+        setIsLoading(false);
+      }
+    };
+
+    // Close the stream when the component unmounts or the event changes
     return () => {
-      if (unsubscribe) {
-        unsubscribe();
+      source.close();
+      if (animationTimer) {
+        clearTimeout(animationTimer);
       }
     };
-  }, []);
+  }, [router.isReady, eventId]);
 
   // Format the last updated time
   const formatLastUpdated = (date: Date) => {
@@ -813,7 +827,7 @@ export default function Scoreboard() {
                             {index === 0 ? '👑' : index === 1 ? '⭐' : '🥉'}
                           </span>
                         ) : (
-                          <span style={{fontSize: '1.3rem', fontWeight: 'bold'}}>#{index + 1}</span>
+                          <span style={{fontSize: '1.3rem', fontWeight: 'bold'}}>#{team.rank}</span>
                         )}
                       </div>
 
@@ -840,17 +854,6 @@ export default function Scoreboard() {
                             ⚔️ Crew #{team.teamNumber}
                           </span>
                         </div>
-                        
-                        <div style={{ display: 'flex', gap: '2rem', alignItems: 'center', flexWrap: 'wrap' }}>
-                          <div>
-                            <p style={{ margin: '0', fontSize: '1.1rem', opacity: 0.95, fontWeight: '500' }}>
-                              👥 Captain <strong>{team.player1}</strong> & First Mate <strong>{team.player2}</strong>
-                            </p>
-                            <p style={{ margin: '0.5rem 0 0 0', fontSize: '0.9rem', opacity: 0.8, fontStyle: 'italic' }}>
-                              🗓️ Enlisted: {new Date(team.createdAt).toLocaleDateString()}
-                            </p>
-                          </div>
-                        </div>
                       </div>
 
                       {/* Enhanced Score Display */}
@@ -0,0 +1,72 @@
+// Store existing teams' emails in canonical form and phone numbers in E.164
+// Calls POST /api/admin/backfill-contacts on a running deployment and prints the report.
+//
+// Usage:
+//   ADMIN_API_KEY=... node scripts/backfill-contacts.js [--url http://localhost:3000] [--event default] [--apply]
+//
+// Without --apply this is a dry run: nothing is written.
+
+const args = process.argv.slice(2);
+
+function readOption(name, fallback) {
+  const index = args.indexOf(name);
+  return index !== -1 && args[index + 1] ? args[index + 1] : fallback;
+}
+
+const baseUrl = readOption('--url', 'http://localhost:3000').replace(/\/$/, '');
+const eventId = readOption('--event', '');
+const apply = args.indexOf('--apply') !== -1;
+const adminKey = process.env.ADMIN_API_KEY;
+
+async function main() {
+  if (!adminKey) {
+    console.error('❌ ADMIN_API_KEY must be set');
+    process.exit(1);
+  }
+
+  const query = eventId ? `?event=${encodeURIComponent(eventId)}` : '';
+  const response = await fetch(`${baseUrl}/api/admin/backfill-contacts${query}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${adminKey}`
+    },
+    body: JSON.stringify({ dryRun: !apply })
+  });
+  const result = await response.json();
+
+  if (!result.success) {
+    console.error(`❌ Backfill failed (${response.status}): ${result.error}`);
+    process.exit(1);
+  }
+
+  const report = result.data;
+  console.log(report.dryRun ? '🔍 Dry run - nothing was written' : '✅ Backfill applied');
+  console.log(`Event: ${report.eventId} (${report.teamCount} team(s))`);
+
+  console.log(`${report.dryRun ? 'Would update' : 'Updated'}: ${report.updated.length} team(s)`);
+  report.updated.forEach(change => {
+    const values = [change.email, change.phoneNumber].filter(Boolean).join(', ');
+    console.log(`  - ${change.uid} (${change.teamName}): ${values}`);
+  });
+
+  if (report.unparseablePhones.length > 0) {
+    console.log('⚠️  Phone numbers that could not be converted (set DEFAULT_PHONE_COUNTRY_CODE or fix by hand):');
+    report.unparseablePhones.forEach(entry => {
+      console.log(`  - ${entry.uid} (${entry.teamName}): ${entry.phoneNumber}`);
+    });
+  }
+
+  report.conflicts.forEach(conflict => {
+    console.log(`⚠️  Email ${decodeURIComponent(conflict.key)} is shared by ${conflict.uids.join(', ')}`);
+  });
+
+  if (report.dryRun) {
+    console.log('Re-run with --apply to write these changes.');
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Backfill request failed:', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,259 @@
+// Generate the typed API client (lib/apiClient.ts) from the OpenAPI document
+// Fetches GET /api/openapi.json from a running server, so start one first (npm run dev).
+//
+// Usage:
+//   node scripts/generate-api-client.js [--url http://localhost:3000] [--check]
+//
+// With --check nothing is written; the script fails if lib/apiClient.ts is out of date.
+
+const fs = require('fs');
+const path = require('path');
+
+const args = process.argv.slice(2);
+
+function readOption(name, fallback) {
+  const index = args.indexOf(name);
+  return index !== -1 && args[index + 1] ? args[index + 1] : fallback;
+}
+
+const baseUrl = readOption('--url', 'http://localhost:3000').replace(/\/$/, '');
+const check = args.indexOf('--check') !== -1;
+const outputPath = path.join(__dirname, '..', 'lib', 'apiClient.ts');
+
+// Unions longer than this are written one member per line
+const MAX_LINE_LENGTH = 100;
+
+function literal(value) {
+  return typeof value === 'string' ? `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'` : String(value);
+}
+
+function refName(ref) {
+  return ref.slice(ref.lastIndexOf('/') + 1);
+}
+
+function union(members, indent) {
+  const oneLine = members.join(' | ');
+  if (oneLine.length <= MAX_LINE_LENGTH) {
+    return oneLine;
+  }
+  return members.map(member => `\n${indent}  | ${member}`).join('');
+}
+
+function propertyName(name) {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : literal(name);
+}
+
+// TypeScript type for a schema; nested objects are written inline at the given indent
+function toType(schema, indent) {
+  if (schema.$ref) {
+    return refName(schema.$ref);
+  }
+  if (schema.const !== undefined) {
+    return literal(schema.const);
+  }
+  if (schema.enum) {
+    return union(schema.enum.map(literal), indent);
+  }
+  if (schema.oneOf) {
+    return union(schema.oneOf.map(member => toType(member, indent)), indent);
+  }
+  switch (schema.type) {
+    case 'string':
+      return 'string';
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'array': {
+      const items = toType(schema.items, indent);
+      return /^\w+$/.test(items) ? `${items}[]` : `Array<${items}>`;
+    }
+    case 'object':
+      return `{\n${objectBody(schema, `${indent}  `)}${indent}}`;
+    default:
+      return 'unknown';
+  }
+}
+
+function objectBody(schema, indent) {
+  const required = schema.required || [];
+  return Object.keys(schema.properties || {}).map(name => {
+    const property = schema.properties[name];
+    const mark = required.indexOf(name) === -1 ? '?' : '';
+    const comment = property.description && !property.$ref ? ` // ${property.description}` : '';
+    return `${indent}${propertyName(name)}${mark}: ${toType(property, indent)};${comment}\n`;
+  }).join('');
+}
+
+function declaration(name, schema) {
+  const comment = schema.description ? `// ${schema.description}\n` : '';
+  if (schema.type === 'object' && schema.properties) {
+    return `${comment}export interface ${name} {\n${objectBody(schema, '  ')}}\n`;
+  }
+  const type = toType({ ...schema, description: undefined }, '');
+  return `${comment}export type ${name} =${type.charAt(0) === '\n' ? '' : ' '}${type};\n`;
+}
+
+function successResponses(responses, contentType) {
+  return Object.keys(responses)
+    .filter(status => status.charAt(0) === '2' && responses[status].content[contentType])
+    .map(status => responses[status]);
+}
+
+// Header a security scheme is sent in
+function securityHeader(scheme) {
+  return scheme.type === 'http' && scheme.scheme === 'bearer' ? 'Authorization: Bearer' : scheme.name;
+}
+
+function list(items) {
+  return items.length > 1 ? `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}` : items[0];
+}
+
+function clientFunction(document, pathName, method, op) {
+  const query = op.parameters.filter(param => param.in === 'query');
+  const headers = op.parameters.filter(param => param.in === 'header');
+  const queryRequired = query.some(param => param.required);
+  const body = op.requestBody ? refName(op.requestBody.content['application/json'].schema.$ref) : null;
+  const success = successResponses(op.responses, 'application/json')
+    .map(response => refName(response.content['application/json'].schema.$ref))
+    .join(' | ');
+  const streams = successResponses(op.responses, 'text/event-stream');
+
+  const queryType = `{ ${query.map(param => `${propertyName(param.name)}${param.required ? '' : '?'}: string`).join('; ')} }`;
+  const params = [];
+  if (body) {
+    params.push(`body: ${body}`);
+  }
+  params.push(`query: ${queryType}${queryRequired ? '' : ' = {}'}`);
+  params.push('options: ApiRequestOptions = {}');
+
+  // Event streams get a URL to open with EventSource, which resends Last-Event-ID by itself
+  if (streams.length > 0) {
+    return [
+      '/**',
+      ` * ${op.summary}`,
+      ` * Open with new EventSource(url) - ${streams[0].description}`,
+      ' */',
+      `export function ${op.operationId}Url(`,
+      params.map(param => `  ${param}`).join(',\n'),
+      '): string {',
+      `  return buildUrl('${pathName}', query, options);`,
+      '}',
+      ''
+    ].join('\n');
+  }
+
+  const notes = [op.summary];
+  if (op.security) {
+    const schemes = Object.keys(op.security[0]).map(name => securityHeader(document.components.securitySchemes[name]));
+    notes.push(`Send ${list(schemes)} in options.headers`);
+  }
+  headers.forEach(param => {
+    notes.push(`Optional ${param.name} header: ${param.description}`);
+  });
+
+  return [
+    '/**',
+    ...notes.map(note => ` * ${note}`),
+    ' */',
+    `export function ${op.operationId}(`,
+    params.map(param => `  ${param}`).join(',\n'),
+    `): Promise<${success} | ErrorResponse> {`,
+    `  return request<${success}>('${method.toUpperCase()}', '${pathName}', query, ${body ? 'body' : 'undefined'}, options);`,
+    '}',
+    ''
+  ].join('\n');
+}
+
+function generate(document) {
+  const schemas = document.components.schemas;
+  const parts = [
+    '// API client',
+    `// Typed functions for ${document.info.title} ${document.info.version}.`,
+    '// Generated from GET /api/openapi.json by scripts/generate-api-client.js - do not edit.',
+    '// Regenerate with `npm run generate:api-client` after changing lib/openapi.ts or lib/apiSchemas.ts.',
+    '',
+    ...Object.keys(schemas).map(name => declaration(name, schemas[name])),
+    'export interface ApiRequestOptions {',
+    "  baseUrl?: string; // Defaults to the page's origin",
+    '  headers?: Record<string, string>;',
+    '  signal?: AbortSignal;',
+    '}',
+    '',
+    '/**',
+    ' * URL of an API path with its query string',
+    ' */',
+    'function buildUrl(path: string, query: Record<string, string | undefined>, options: ApiRequestOptions): string {',
+    '  const search = Object.keys(query)',
+    '    .filter(name => query[name] !== undefined && query[name] !== \'\')',
+    '    .map(name => `${encodeURIComponent(name)}=${encodeURIComponent(query[name] as string)}`)',
+    "    .join('&');",
+    "  return `${options.baseUrl || ''}${path}${search ? `?${search}` : ''}`;",
+    '}',
+    '',
+    '/**',
+    ' * Send a request and parse the JSON response',
+    ' * API errors resolve to an ErrorResponse; only network failures and non-JSON responses reject.',
+    ' */',
+    'async function request<T>(',
+    '  method: string,',
+    '  path: string,',
+    '  query: Record<string, string | undefined>,',
+    '  body: unknown,',
+    '  options: ApiRequestOptions',
+    '): Promise<T | ErrorResponse> {',
+    '  const response = await fetch(buildUrl(path, query, options), {',
+    '    method,',
+    '    headers: {',
+    "      ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),",
+    '      ...options.headers',
+    '    },',
+    '    body: body !== undefined ? JSON.stringify(body) : undefined,',
+    '    signal: options.signal',
+    '  });',
+    '  return response.json();',
+    '}',
+    ''
+  ];
+
+  Object.keys(document.paths).forEach(pathName => {
+    const item = document.paths[pathName];
+    Object.keys(item).forEach(method => {
+      // Deprecated aliases get no client functions
+      if (!item[method].deprecated) {
+        parts.push(clientFunction(document, pathName, method, item[method]));
+      }
+    });
+  });
+
+  return `${parts.join('\n').replace(/\n+$/, '')}\n`;
+}
+
+async function main() {
+  const response = await fetch(`${baseUrl}/api/openapi.json`);
+  if (!response.ok) {
+    console.error(`❌ Could not fetch the OpenAPI document (${response.status})`);
+    process.exit(1);
+  }
+
+  const source = generate(await response.json());
+  const current = fs.existsSync(outputPath) ? fs.readFileSync(outputPath, 'utf8') : '';
+
+  if (check) {
+    if (source !== current) {
+      console.error('❌ lib/apiClient.ts is out of date - run npm run generate:api-client');
+      process.exit(1);
+    }
+    console.log('✅ lib/apiClient.ts is up to date');
+    return;
+  }
+
+  fs.writeFileSync(outputPath, source);
+  console.log(source === current ? '✅ lib/apiClient.ts was already up to date' : '✅ Wrote lib/apiClient.ts');
+}
+
+main().catch(error => {
+  console.error('❌ Client generation failed:', error.message);
+  process.exit(1);
+});
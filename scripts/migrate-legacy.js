@@ -0,0 +1,70 @@
+// Move root-level teams from early deployments into an event
+// Calls POST /api/admin/migrate-legacy on a running deployment and prints the report.
+//
+// Usage:
+//   ADMIN_API_KEY=... node scripts/migrate-legacy.js [--url http://localhost:3000] [--event default] [--apply]
+//
+// Without --apply this is a dry run: nothing is written.
+
+const args = process.argv.slice(2);
+
+function readOption(name, fallback) {
+  const index = args.indexOf(name);
+  return index !== -1 && args[index + 1] ? args[index + 1] : fallback;
+}
+
+const baseUrl = readOption('--url', 'http://localhost:3000').replace(/\/$/, '');
+const eventId = readOption('--event', '');
+const apply = args.indexOf('--apply') !== -1;
+const adminKey = process.env.ADMIN_API_KEY;
+
+async function main() {
+  if (!adminKey) {
+    console.error('❌ ADMIN_API_KEY must be set');
+    process.exit(1);
+  }
+
+  const query = eventId ? `?event=${encodeURIComponent(eventId)}` : '';
+  const response = await fetch(`${baseUrl}/api/admin/migrate-legacy${query}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${adminKey}`
+    },
+    body: JSON.stringify({ dryRun: !apply })
+  });
+  const result = await response.json();
+
+  if (!result.success) {
+    console.error(`❌ Migration failed (${response.status}): ${result.error}`);
+    process.exit(1);
+  }
+
+  const report = result.data;
+  console.log(report.dryRun ? '🔍 Dry run - nothing was written' : '✅ Migration applied');
+  console.log(`Event: ${report.eventId}`);
+  console.log(`${report.dryRun ? 'Would migrate' : 'Migrated'}: ${report.migrated.length} team(s)`);
+  report.migrated.forEach(uid => console.log(`  - ${uid}`));
+
+  if (report.conflicts.length > 0) {
+    console.log(`⚠️  Already exist in the event (left in place): ${report.conflicts.join(', ')}`);
+  }
+
+  if (report.malformed.length > 0) {
+    console.log(`⚠️  Malformed team records (left in place): ${report.malformed.length}`);
+    report.malformed.forEach(node => {
+      console.log(`  - ${node.key}: ${node.errors.join('; ')}`);
+    });
+  }
+
+  report.skipped.forEach(node => console.log(`Skipped ${node.key}: ${node.reason}`));
+
+  if (report.dryRun && report.migrated.length > 0) {
+    console.log('Re-run with --apply to write these changes.');
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Migration request failed:', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,73 @@
+// Find teams sharing a team number and renumber all but the oldest
+// Calls POST /api/admin/repair-team-numbers on a running deployment and prints the report.
+//
+// Usage:
+//   ADMIN_API_KEY=... node scripts/repair-team-numbers.js [--url http://localhost:3000] [--event default] [--apply]
+//
+// Without --apply this is a dry run: nothing is written.
+
+const args = process.argv.slice(2);
+
+function readOption(name, fallback) {
+  const index = args.indexOf(name);
+  return index !== -1 && args[index + 1] ? args[index + 1] : fallback;
+}
+
+const baseUrl = readOption('--url', 'http://localhost:3000').replace(/\/$/, '');
+const eventId = readOption('--event', '');
+const apply = args.indexOf('--apply') !== -1;
+const adminKey = process.env.ADMIN_API_KEY;
+
+async function main() {
+  if (!adminKey) {
+    console.error('❌ ADMIN_API_KEY must be set');
+    process.exit(1);
+  }
+
+  const query = eventId ? `?event=${encodeURIComponent(eventId)}` : '';
+  const response = await fetch(`${baseUrl}/api/admin/repair-team-numbers${query}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${adminKey}`
+    },
+    body: JSON.stringify({ dryRun: !apply })
+  });
+  const result = await response.json();
+
+  if (!result.success) {
+    console.error(`❌ Repair failed (${response.status}): ${result.error}`);
+    process.exit(1);
+  }
+
+  const report = result.data;
+  console.log(report.dryRun ? '🔍 Dry run - nothing was written' : '✅ Repair applied');
+  console.log(`Event: ${report.eventId} (${report.teamCount} team(s))`);
+
+  if (report.renumbered.length === 0) {
+    console.log('No duplicate team numbers found.');
+    return;
+  }
+
+  report.duplicates.forEach(duplicate => {
+    console.log(`⚠️  Team #${duplicate.teamNumber} is shared by ${duplicate.uids.join(', ')}`);
+  });
+  if (report.invalid.length > 0) {
+    console.log(`⚠️  Missing or invalid team number: ${report.invalid.join(', ')}`);
+  }
+
+  console.log(`${report.dryRun ? 'Would renumber' : 'Renumbered'}: ${report.renumbered.length} team(s)`);
+  report.renumbered.forEach(change => {
+    const from = change.from === null ? 'none' : `#${change.from}`;
+    console.log(`  - ${change.uid} (${change.teamName}): ${from} -> #${change.to}`);
+  });
+
+  if (report.dryRun) {
+    console.log('Re-run with --apply to write these changes.');
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Repair request failed:', error.message);
+  process.exit(1);
+});
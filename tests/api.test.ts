@@ -0,0 +1,141 @@
+// The game API end to end against the in-memory store - no database or network needed
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import updateScoreHandler from '@/pages/api/v1/update-score';
+import updateScoreBatchHandler from '@/pages/api/v1/update-score/batch';
+import teamHandler from '@/pages/api/v1/team';
+import scoreboardHandler from '@/pages/api/v1/scoreboard';
+import scoreEventsHandler from '@/pages/api/v1/score-events';
+import adminScoreHandler from '@/pages/api/admin/teams/[uid]/score';
+import { registerTeam, setTeamDisqualified, getTeam, updateScore, type RegisteredTeam } from '@/lib/firestore';
+import { createEvent } from '@/lib/events';
+import { setTeamRepository } from '@/lib/teamRepository';
+import { createMemoryTeamRepository } from '@/lib/memoryTeamRepository';
+import { callHandler } from './apiRequests';
+
+const EVENT_ID = 'test-hunt';
+
+describe('game API on the in-memory store', () => {
+  let raiders: RegisteredTeam;
+  let seaDogs: RegisteredTeam;
+
+  beforeEach(async () => {
+    setTeamRepository(createMemoryTeamRepository());
+    await createEvent(EVENT_ID, 'Test Hunt');
+    raiders = await registerTeam(EVENT_ID, 'Raiders', 'Alice', 'Bob', 'raiders@example.com', '+14155550123');
+    seaDogs = await registerTeam(EVENT_ID, 'Sea Dogs', 'Carol', 'Dave', 'seadogs@example.com', '+14155550124');
+  });
+
+  it('scores teams and ranks them on the scoreboard', async () => {
+    const single = await callHandler(updateScoreHandler, {
+      query: { event: EVENT_ID },
+      headers: { 'x-team-token': raiders.teamToken },
+      body: { uid: raiders.uid, scoreIncrement: 100 }
+    });
+    expect(single.statusCode).toBe(200);
+
+    const batch = await callHandler(updateScoreBatchHandler, {
+      query: { event: EVENT_ID },
+      headers: { 'x-team-token': seaDogs.teamToken },
+      body: {
+        uid: seaDogs.uid,
+        events: [
+          { eventId: 'sd-1', scoreIncrement: 80, clientTimestamp: 1792368000000 },
+          { eventId: 'sd-2', scoreIncrement: 70, clientTimestamp: 1792368060000 }
+        ]
+      }
+    });
+    expect(batch.statusCode).toBe(200);
+    expect(batch.body.data).toMatchObject({ applied: 2, scoreIncrement: 150 });
+
+    const scoreboard = await callHandler(scoreboardHandler, { method: 'GET', query: { event: EVENT_ID } });
+    expect(scoreboard.body.data).toMatchObject({
+      teams: [
+        { teamName: 'Sea Dogs', score: 150, rank: 1 },
+        { teamName: 'Raiders', score: 100, rank: 2 }
+      ],
+      totalTeams: 2
+    });
+  });
+
+  it('returns a team only to its own token', async () => {
+    const own = await callHandler(teamHandler, {
+      method: 'GET',
+      query: { event: EVENT_ID, uid: raiders.uid },
+      headers: { 'x-team-token': raiders.teamToken }
+    });
+    expect(own.statusCode).toBe(200);
+    expect(own.body.data).toMatchObject({ uid: raiders.uid, teamName: 'Raiders' });
+
+    const other = await callHandler(teamHandler, {
+      method: 'GET',
+      query: { event: EVENT_ID, uid: raiders.uid },
+      headers: { 'x-team-token': seaDogs.teamToken }
+    });
+    expect(other.statusCode).toBe(401);
+    expect(other.body.code).toBe('TEAM_TOKEN_INVALID');
+  });
+
+  it('records every change in a ledger that matches the score', async () => {
+    for (const increment of [10, 20, -5]) {
+      await callHandler(updateScoreHandler, {
+        query: { event: EVENT_ID },
+        headers: { 'x-team-token': raiders.teamToken },
+        body: { uid: raiders.uid, scoreIncrement: increment }
+      });
+    }
+
+    const ledger = await callHandler(scoreEventsHandler, { method: 'GET', query: { event: EVENT_ID, uid: raiders.uid } });
+    expect(ledger.body.data).toMatchObject({
+      events: [{ amount: 10 }, { amount: 20 }, { amount: -5 }],
+      reconciliation: { storedScore: 25, ledgerScore: 25, inSync: true }
+    });
+  });
+
+  describe('disqualified teams', () => {
+    beforeEach(async () => {
+      await setTeamDisqualified(EVENT_ID, raiders.uid, true, 'Left the venue');
+      process.env.ADMIN_API_KEY = 'test-admin-key';
+    });
+
+    afterEach(() => {
+      delete process.env.ADMIN_API_KEY;
+    });
+
+    it('refuses game requests, even ones claiming to come from an organizer', async () => {
+      const scoreAs = (source?: string) => callHandler(updateScoreHandler, {
+        query: { event: EVENT_ID },
+        headers: { 'x-team-token': raiders.teamToken },
+        body: { uid: raiders.uid, scoreIncrement: 100, source }
+      });
+
+      const plain = await scoreAs();
+      const asAdmin = await scoreAs('admin');
+      const batch = await callHandler(updateScoreBatchHandler, {
+        query: { event: EVENT_ID },
+        headers: { 'x-team-token': raiders.teamToken },
+        body: { uid: raiders.uid, events: [{ eventId: 'r-1', scoreIncrement: 100, clientTimestamp: 1792368000000, source: 'admin' }] }
+      });
+
+      expect(plain.statusCode).toBe(403);
+      expect(plain.body.code).toBe('TEAM_DISQUALIFIED');
+      expect(asAdmin.statusCode).toBe(400);
+      expect(asAdmin.body.code).toBe('VALIDATION_FAILED');
+      expect(batch.body.data).toMatchObject({ applied: 0, results: [{ status: 'rejected', code: 'VALIDATION_FAILED' }] });
+      // The exemption comes from the route, never from the ledger source
+      await expect(updateScore(EVENT_ID, raiders.uid, 100, { source: 'admin' })).rejects.toThrow('disqualified');
+      expect((await getTeam(EVENT_ID, raiders.uid))!.score).toBe(0);
+    });
+
+    it('lets organizers still adjust the score', async () => {
+      const adjusted = await callHandler(adminScoreHandler, {
+        query: { event: EVENT_ID, uid: raiders.uid },
+        headers: { authorization: 'Bearer test-admin-key' },
+        body: { amount: -10, reason: 'Penalty' }
+      });
+
+      expect(adjusted.statusCode).toBe(200);
+      expect((await getTeam(EVENT_ID, raiders.uid))!.score).toBe(-10);
+    });
+  });
+});
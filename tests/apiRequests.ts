@@ -0,0 +1,56 @@
+// Helpers for calling API route handlers directly, without a server
+
+import { PassThrough } from 'stream';
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+export interface RequestOptions {
+  method?: string;
+  url?: string;
+  query?: Record<string, string>;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+// What a handler sent back
+export interface RecordedResponse {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: Record<string, unknown>; // Parsed JSON body; empty until the handler responds
+}
+
+type Handler = (req: NextApiRequest, res: NextApiResponse) => unknown;
+
+/**
+ * Run a handler with a JSON request and record its response
+ * The body is streamed like a real request, so routes that read the raw body work too.
+ */
+export async function callHandler(handler: Handler, options: RequestOptions = {}): Promise<RecordedResponse> {
+  const stream = new PassThrough();
+  const req = Object.assign(stream, {
+    method: options.method || 'POST',
+    url: options.url || '/',
+    query: options.query || {},
+    headers: { 'content-type': 'application/json', ...options.headers },
+    body: options.body
+  }) as unknown as NextApiRequest;
+  stream.end(options.body === undefined ? '' : JSON.stringify(options.body));
+
+  const recorded: RecordedResponse = { statusCode: 200, headers: {}, body: {} };
+  const res = {
+    status(code: number) {
+      recorded.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      recorded.body = body as Record<string, unknown>;
+      return res;
+    },
+    setHeader(name: string, value: string) {
+      recorded.headers[name.toLowerCase()] = value;
+      return res;
+    }
+  };
+
+  await handler(req, res as unknown as NextApiResponse);
+  return recorded;
+}
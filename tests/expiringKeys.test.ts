@@ -0,0 +1,38 @@
+// Expired records under expiring-key nodes (idempotency keys, signature nonces) are cleaned up, live ones are kept
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createMemoryTeamRepository } from '@/lib/memoryTeamRepository';
+import type { TeamRepository } from '@/lib/teamRepository';
+
+const NODE = 'idempotencyKeys';
+
+describe('deleteExpiredKeys', () => {
+  let repository: TeamRepository;
+  const now = Date.now();
+
+  beforeEach(async () => {
+    repository = createMemoryTeamRepository();
+    await repository.setExpiringKey(NODE, 'expired-1', { expiresAt: now - 2000 });
+    await repository.setExpiringKey(NODE, 'expired-2', { expiresAt: now - 1000 });
+    await repository.setExpiringKey(NODE, 'live', { expiresAt: now + 1000 });
+    await repository.setExpiringKey('otherNode', 'expired', { expiresAt: now - 1000 });
+  });
+
+  it('deletes expired records under the node only', async () => {
+    expect(await repository.deleteExpiredKeys(NODE, now, 10)).toBe(2);
+    expect(await repository.deleteExpiredKeys(NODE, now, 10)).toBe(0);
+    expect(await repository.deleteExpiredKeys('otherNode', now, 10)).toBe(1);
+  });
+
+  it('keeps live records claimed', async () => {
+    await repository.deleteExpiredKeys(NODE, now, 10);
+    const claim = await repository.claimExpiringKey(NODE, 'live', { expiresAt: now + 5000 });
+    expect(claim.claimed).toBe(false);
+  });
+
+  it('deletes the oldest records first, up to the limit', async () => {
+    expect(await repository.deleteExpiredKeys(NODE, now, 1)).toBe(1);
+    expect(await repository.deleteExpiredKeys(NODE, now - 1500, 10)).toBe(0);
+    expect(await repository.deleteExpiredKeys(NODE, now, 10)).toBe(1);
+  });
+});
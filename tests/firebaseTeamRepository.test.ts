@@ -0,0 +1,148 @@
+// Firebase score writes: concurrent changes use server-side increments, and a retried write
+// never applies its change twice. Runs against a fake of firebase/database that applies
+// multi-path updates the way the Realtime Database does.
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const database = vi.hoisted(() => {
+  const state = {
+    values: {} as Record<string, unknown>, // Leaf values by full path
+    updates: [] as Array<Record<string, unknown>>, // Every multi-path update sent
+    failures: [] as Array<'before-write' | 'after-write'>, // Queued failures for the next updates
+    keys: 0
+  };
+
+  const isIncrement = (value: unknown): value is { increment: number } =>
+    !!value && typeof value === 'object' && 'increment' in value;
+
+  return {
+    state,
+    ref: (_db: unknown, path: string = '') => ({ path }),
+    child: (parent: { path: string }, path: string) => ({ path: parent.path ? `${parent.path}/${path}` : path }),
+    push: () => {
+      state.keys += 1;
+      return { key: `event-${state.keys}` };
+    },
+    increment: (delta: number) => ({ increment: delta }),
+    get: async (target: { path: string }) => {
+      const value = state.values[target.path];
+      return { exists: () => value !== undefined, val: () => value };
+    },
+    update: async (_target: unknown, updates: Record<string, unknown>) => {
+      state.updates.push(updates);
+      // Let concurrent writers interleave, as they would over the network
+      await new Promise(resolve => setTimeout(resolve, 1));
+
+      const failure = state.failures.shift();
+      if (failure === 'before-write') {
+        throw new Error('Network disconnected before the write reached the server');
+      }
+
+      for (const path of Object.keys(updates)) {
+        const value = updates[path];
+        const current = state.values[path];
+        state.values[path] = isIncrement(value) ? (typeof current === 'number' ? current : 0) + value.increment : value;
+      }
+
+      if (failure === 'after-write') {
+        throw new Error('Network disconnected before the write was acknowledged');
+      }
+    }
+  };
+});
+
+vi.mock('firebase/database', () => ({
+  ref: database.ref,
+  child: database.child,
+  push: database.push,
+  increment: database.increment,
+  get: database.get,
+  update: database.update,
+  set: vi.fn(),
+  runTransaction: vi.fn(),
+  onValue: vi.fn(),
+  off: vi.fn(),
+  query: vi.fn(),
+  orderByChild: vi.fn(),
+  endAt: vi.fn(),
+  limitToFirst: vi.fn()
+}));
+
+vi.mock('@/lib/firebase', () => ({
+  db: {},
+  ensureAuth: async () => {}
+}));
+
+import { createFirebaseTeamRepository } from '@/lib/firebaseTeamRepository';
+
+const EVENT_ID = 'test-hunt';
+const UID = 'qK234';
+const TEAM_SCORE = `events/${EVENT_ID}/teams/${UID}/score`;
+const SCOREBOARD_SCORE = `events/${EVENT_ID}/scoreboard/${UID}/score`;
+
+function ledgerPaths(): string[] {
+  return Object.keys(database.state.values).filter(path => path.indexOf(`events/${EVENT_ID}/scoreEvents/${UID}/`) === 0);
+}
+
+describe('Firebase applyScoreChange', () => {
+  beforeEach(() => {
+    database.state.values = { [TEAM_SCORE]: 0, [SCOREBOARD_SCORE]: 0 };
+    database.state.updates = [];
+    database.state.failures = [];
+  });
+
+  it('sends every change as a server-side increment, so concurrent changes all land', async () => {
+    const repository = createFirebaseTeamRepository();
+    const changes = 20;
+
+    await Promise.all(
+      Array.from({ length: changes }, (_, i) =>
+        repository.applyScoreChange(EVENT_ID, UID, 10, { source: 'unity', reason: `treasure ${i}` })
+      )
+    );
+
+    for (const updates of database.state.updates) {
+      expect(updates[TEAM_SCORE]).toEqual({ increment: 10 });
+      expect(updates[SCOREBOARD_SCORE]).toEqual({ increment: 10 });
+    }
+    expect(database.state.values[TEAM_SCORE]).toBe(changes * 10);
+    expect(database.state.values[SCOREBOARD_SCORE]).toBe(changes * 10);
+    expect(ledgerPaths()).toHaveLength(changes);
+  });
+
+  it('retries a write that failed before reaching the server, with the same ledger event', async () => {
+    database.state.failures = ['before-write'];
+    const repository = createFirebaseTeamRepository();
+
+    const event = await repository.applyScoreChange(EVENT_ID, UID, 10, { source: 'unity' });
+
+    expect(database.state.updates).toHaveLength(2);
+    expect(database.state.values[TEAM_SCORE]).toBe(10);
+    expect(ledgerPaths()).toEqual([`events/${EVENT_ID}/scoreEvents/${UID}/${event.id}`]);
+  });
+
+  it('does not apply a change twice when the write landed but its acknowledgement was lost', async () => {
+    database.state.failures = ['after-write'];
+    const repository = createFirebaseTeamRepository();
+
+    await repository.applyScoreChange(EVENT_ID, UID, 10, { source: 'unity' });
+
+    expect(database.state.updates).toHaveLength(1);
+    expect(database.state.values[TEAM_SCORE]).toBe(10);
+    expect(ledgerPaths()).toHaveLength(1);
+  });
+
+  it('applies a batch once when its acknowledgement was lost', async () => {
+    database.state.failures = ['after-write'];
+    const repository = createFirebaseTeamRepository();
+
+    await repository.applyScoreChanges(EVENT_ID, UID, [
+      { amount: 10, source: 'unity', reason: 'first' },
+      { amount: 5, source: 'unity', reason: 'second' }
+    ]);
+
+    expect(database.state.updates).toHaveLength(1);
+    expect(database.state.values[TEAM_SCORE]).toBe(15);
+    expect(ledgerPaths()).toHaveLength(2);
+  });
+});
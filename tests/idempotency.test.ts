@@ -0,0 +1,145 @@
+// Idempotency keys on /api/v1/update-score and its batch route: retries replay, other teams and other requests don't
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import updateScoreHandler from '@/pages/api/v1/update-score';
+import updateScoreBatchHandler from '@/pages/api/v1/update-score/batch';
+import { getTeam, type Team } from '@/lib/firestore';
+import { issueTeamToken } from '@/lib/teamTokens';
+import { setTeamRepository, type TeamRepository } from '@/lib/teamRepository';
+import { createMemoryTeamRepository } from '@/lib/memoryTeamRepository';
+import { claimIdempotencyKey, completeIdempotencyKey, PENDING_LEASE_MS } from '@/lib/idempotency';
+import { callHandler } from './apiRequests';
+
+const EVENT_ID = 'test-hunt';
+
+function team(uid: string, teamNumber: number): Team {
+  return {
+    uid,
+    teamNumber,
+    teamName: `Team ${teamNumber}`,
+    player1: 'Alice',
+    player2: 'Bob',
+    email: `team${teamNumber}@example.com`,
+    phoneNumber: '+14155550123',
+    score: 0,
+    createdAt: 1700000000000
+  };
+}
+
+describe('update-score idempotency', () => {
+  let repository: TeamRepository;
+  const tokens: Record<string, string> = {};
+
+  const scoreFor = (uid: string, body: Record<string, unknown>) =>
+    callHandler(updateScoreHandler, {
+      query: { event: EVENT_ID },
+      headers: { 'x-team-token': tokens[uid] },
+      body: { uid, ...body }
+    });
+
+  const batchFor = (uid: string, events: Array<Record<string, unknown>>) =>
+    callHandler(updateScoreBatchHandler, {
+      query: { event: EVENT_ID },
+      headers: { 'x-team-token': tokens[uid] },
+      body: { uid, events: events.map(event => ({ clientTimestamp: Date.now(), ...event })) }
+    });
+
+  beforeEach(async () => {
+    repository = createMemoryTeamRepository();
+    setTeamRepository(repository);
+    for (const [uid, teamNumber] of [['teamA', 1], ['teamB', 2]] as Array<[string, number]>) {
+      await repository.createTeam(EVENT_ID, team(uid, teamNumber));
+      tokens[uid] = await issueTeamToken(EVENT_ID, uid);
+    }
+  });
+
+  it('replays a retried request instead of scoring twice', async () => {
+    const first = await scoreFor('teamA', { scoreIncrement: 100, eventId: 'found-golden-compass' });
+    const retry = await scoreFor('teamA', { scoreIncrement: 100, eventId: 'found-golden-compass' });
+
+    expect(first.statusCode).toBe(200);
+    expect(retry.statusCode).toBe(200);
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+    expect(retry.body).toEqual(first.body);
+    expect((await getTeam(EVENT_ID, 'teamA'))!.score).toBe(100);
+  });
+
+  it('keeps keys of different teams apart', async () => {
+    await scoreFor('teamA', { scoreIncrement: 100, eventId: 'found-golden-compass' });
+    const other = await scoreFor('teamB', { scoreIncrement: 100, eventId: 'found-golden-compass' });
+
+    expect(other.statusCode).toBe(200);
+    expect(other.headers['idempotent-replayed']).toBeUndefined();
+    expect(other.body.message).toContain('teamB');
+    expect((await getTeam(EVENT_ID, 'teamB'))!.score).toBe(100);
+  });
+
+  it('refuses a key reused for a different score update', async () => {
+    await scoreFor('teamA', { scoreIncrement: 100, eventId: 'found-golden-compass' });
+    const reused = await scoreFor('teamA', { scoreIncrement: 500, eventId: 'found-golden-compass' });
+
+    expect(reused.statusCode).toBe(422);
+    expect(reused.body.code).toBe('IDEMPOTENCY_KEY_REUSED');
+    expect((await getTeam(EVENT_ID, 'teamA'))!.score).toBe(100);
+  });
+
+  it('keeps batch keys of different teams apart', async () => {
+    await batchFor('teamA', [{ eventId: 'found-golden-compass', scoreIncrement: 100 }]);
+    const other = await batchFor('teamB', [{ eventId: 'found-golden-compass', scoreIncrement: 100 }]);
+
+    expect(other.statusCode).toBe(200);
+    expect(other.body.data).toMatchObject({ applied: 1, results: [{ status: 'applied' }] });
+    expect((await getTeam(EVENT_ID, 'teamB'))!.score).toBe(100);
+  });
+
+  it('rejects a batch event whose key was used for a different score update', async () => {
+    await scoreFor('teamA', { scoreIncrement: 100, eventId: 'found-golden-compass' });
+    const batch = await batchFor('teamA', [
+      { eventId: 'found-golden-compass', scoreIncrement: 100 },
+      { eventId: 'found-golden-compass-2', scoreIncrement: 50, reason: 'bonus' }
+    ]);
+    const reused = await batchFor('teamA', [{ eventId: 'found-golden-compass-2', scoreIncrement: 500 }]);
+
+    expect(batch.body.data).toMatchObject({ applied: 1, results: [{ status: 'duplicate' }, { status: 'applied' }] });
+    expect(reused.body.data).toMatchObject({
+      applied: 0,
+      results: [{ status: 'rejected', code: 'IDEMPOTENCY_KEY_REUSED' }]
+    });
+    expect((await getTeam(EVENT_ID, 'teamA'))!.score).toBe(150);
+  });
+});
+
+describe('claimIdempotencyKey', () => {
+  const SCOPE = `update-score:${EVENT_ID}:teamA`;
+
+  beforeEach(() => {
+    setTeamRepository(createMemoryTeamRepository());
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const at = (time: number) => vi.spyOn(Date, 'now').mockReturnValue(time);
+
+  it('frees a key that was claimed but never completed once the lease runs out', async () => {
+    const start = Date.now();
+    await claimIdempotencyKey(SCOPE, 'found-golden-compass', 'fingerprint');
+
+    at(start + PENDING_LEASE_MS - 1000);
+    expect((await claimIdempotencyKey(SCOPE, 'found-golden-compass', 'fingerprint')).claimed).toBe(false);
+
+    at(start + PENDING_LEASE_MS + 1000);
+    expect((await claimIdempotencyKey(SCOPE, 'found-golden-compass', 'fingerprint')).claimed).toBe(true);
+  });
+
+  it('keeps a completed key for the full window', async () => {
+    const start = Date.now();
+    await claimIdempotencyKey(SCOPE, 'found-golden-compass', 'fingerprint');
+    await completeIdempotencyKey(SCOPE, 'found-golden-compass', 'fingerprint', 200, { success: true });
+
+    at(start + 60 * PENDING_LEASE_MS);
+    const claim = await claimIdempotencyKey(SCOPE, 'found-golden-compass', 'fingerprint');
+    expect(claim.claimed).toBe(false);
+  });
+});
@@ -0,0 +1,72 @@
+// In-memory storage: team writes keep the public scoreboard in sync, as the Firebase store does
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createMemoryTeamRepository } from '@/lib/memoryTeamRepository';
+import type { TeamRepository } from '@/lib/teamRepository';
+import type { ScoreboardEntry, Team } from '@/lib/firestore';
+
+const EVENT_ID = 'test-hunt';
+
+const TEAM: Team = {
+  uid: 'qK234',
+  teamNumber: 1,
+  teamName: 'Raiders',
+  player1: 'Alice',
+  player2: 'Bob',
+  email: 'team@example.com',
+  phoneNumber: '+14155550123',
+  score: 0,
+  createdAt: 1700000000000
+};
+
+describe('createMemoryTeamRepository', () => {
+  let repository: TeamRepository;
+  let scoreboard: ScoreboardEntry[];
+
+  beforeEach(async () => {
+    repository = createMemoryTeamRepository();
+    repository.subscribeToScoreboard(EVENT_ID, (entries) => {
+      scoreboard = entries;
+    });
+    await repository.createTeam(EVENT_ID, TEAM);
+  });
+
+  it('refuses to create a team under a UID that is taken', async () => {
+    expect(await repository.createTeam(EVENT_ID, { ...TEAM, teamName: 'Impostors' })).toBe(false);
+    expect((await repository.getTeam(EVENT_ID, TEAM.uid))!.teamName).toBe('Raiders');
+  });
+
+  it('mirrors public fields of team changes to the scoreboard', async () => {
+    await repository.updateTeam(EVENT_ID, TEAM.uid, { teamName: 'Sea Dogs', player1: 'Carol' });
+
+    const team = await repository.getTeam(EVENT_ID, TEAM.uid);
+    expect(team!.teamName).toBe('Sea Dogs');
+    expect(team!.player1).toBe('Carol');
+    expect(scoreboard).toEqual([{ teamName: 'Sea Dogs', teamNumber: 1, score: 0 }]);
+  });
+
+  it('removes fields changed to null', async () => {
+    await repository.updateTeam(EVENT_ID, TEAM.uid, { disqualified: true, disqualifiedReason: 'Cheating' });
+    await repository.updateTeam(EVENT_ID, TEAM.uid, { disqualified: null, disqualifiedReason: null });
+
+    const team = await repository.getTeam(EVENT_ID, TEAM.uid);
+    expect(team).not.toHaveProperty('disqualified');
+    expect(team).not.toHaveProperty('disqualifiedReason');
+    expect(scoreboard[0]).not.toHaveProperty('disqualified');
+  });
+
+  it('returns copies, so callers cannot change the store', async () => {
+    const team = await repository.getTeam(EVENT_ID, TEAM.uid);
+    team!.score = 999;
+    expect((await repository.getTeam(EVENT_ID, TEAM.uid))!.score).toBe(0);
+  });
+
+  it('keeps the ledger of a deleted team', async () => {
+    await repository.applyScoreChange(EVENT_ID, TEAM.uid, 10, { source: 'unity' });
+    await repository.deleteTeam(EVENT_ID, TEAM.uid);
+
+    expect(await repository.getTeam(EVENT_ID, TEAM.uid)).toBeNull();
+    expect(scoreboard).toEqual([]);
+    expect(await repository.getScoreEvents(EVENT_ID, TEAM.uid)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,77 @@
+// Verification codes: stored under a keyed hash, and refused outright without the key.
+// Per-IP throttling reads the client IP from the trusted proxy's hop only.
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { NextApiRequest } from 'next';
+import { requestOTP, verifyOTP, getClientIp } from '@/lib/otp';
+import { setOtpStore, createMemoryOtpStore } from '@/lib/otpStore';
+
+const RECIPIENT = 'team@example.com';
+const SCOPE = 'test-hunt';
+const IP = '203.0.113.7';
+
+describe('OTP hashing', () => {
+  beforeEach(() => {
+    setOtpStore(createMemoryOtpStore());
+    process.env.OTP_HASH_SECRET = 'test-secret';
+  });
+
+  afterEach(() => {
+    delete process.env.OTP_HASH_SECRET;
+  });
+
+  it('accepts the code it sent, once', async () => {
+    const request = await requestOTP(RECIPIENT, SCOPE, IP);
+    if (!request.sent) {
+      throw new Error(request.error);
+    }
+
+    expect(await verifyOTP(RECIPIENT, request.code, SCOPE)).toEqual({ valid: true });
+    expect((await verifyOTP(RECIPIENT, request.code, SCOPE)).valid).toBe(false);
+  });
+
+  it('rejects codes once the secret changes', async () => {
+    const request = await requestOTP(RECIPIENT, SCOPE, IP);
+    if (!request.sent) {
+      throw new Error(request.error);
+    }
+
+    process.env.OTP_HASH_SECRET = 'rotated-secret';
+    expect(await verifyOTP(RECIPIENT, request.code, SCOPE)).toMatchObject({ valid: false, code: 'OTP_INVALID' });
+  });
+
+  it('refuses to issue or check codes without a secret', async () => {
+    delete process.env.OTP_HASH_SECRET;
+
+    await expect(requestOTP(RECIPIENT, SCOPE, IP)).rejects.toThrow('OTP_HASH_SECRET');
+    await expect(verifyOTP(RECIPIENT, '123456', SCOPE)).rejects.toThrow('OTP_HASH_SECRET');
+  });
+});
+
+describe('getClientIp', () => {
+  const request = (forwardedFor?: string) => ({
+    headers: forwardedFor ? { 'x-forwarded-for': forwardedFor } : {},
+    socket: { remoteAddress: '10.0.0.1' }
+  }) as unknown as NextApiRequest;
+
+  afterEach(() => {
+    delete process.env.TRUSTED_PROXY_COUNT;
+  });
+
+  it('uses the hop the proxy added, not ones the client sent', async () => {
+    expect(getClientIp(request('198.51.100.1, 203.0.113.7'))).toBe('203.0.113.7');
+    expect(getClientIp(request('198.51.100.2, 203.0.113.7'))).toBe('203.0.113.7');
+  });
+
+  it('counts the configured number of proxies from the right', async () => {
+    process.env.TRUSTED_PROXY_COUNT = '2';
+    expect(getClientIp(request('198.51.100.1, 203.0.113.7, 192.0.2.10'))).toBe('203.0.113.7');
+  });
+
+  it('falls back to the connection address without proxies or forwarded hops', async () => {
+    expect(getClientIp(request())).toBe('10.0.0.1');
+
+    process.env.TRUSTED_PROXY_COUNT = '0';
+    expect(getClientIp(request('198.51.100.1'))).toBe('10.0.0.1');
+  });
+});
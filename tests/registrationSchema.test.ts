@@ -0,0 +1,35 @@
+// Phone number validation: the registration rule accepts exactly the numbers lib/phone.ts can convert
+
+import { describe, it, expect } from 'vitest';
+import { validateField } from '@/lib/registrationSchema';
+import { normalizePhoneNumber } from '@/lib/phone';
+
+describe('phone number validation', () => {
+  it('accepts international numbers in common formats', () => {
+    expect(validateField('phoneNumber', '+1 (415) 555-0123')).toBeNull();
+    expect(validateField('phoneNumber', '+44 (0) 7911 123456')).toBeNull();
+    expect(validateField('phoneNumber', '0044 7911 123456')).toBeNull();
+  });
+
+  it('drops a trunk (0) written after the country code', () => {
+    expect(normalizePhoneNumber('+44 (0) 7911 123456')).toBe('+447911123456');
+  });
+
+  it('converts local numbers with the default country code', () => {
+    expect(normalizePhoneNumber('415.555.0123', '1')).toBe('+14155550123');
+    expect(normalizePhoneNumber('07911 123456', '44')).toBe('+447911123456');
+  });
+
+  it('rejects a local number when no default country code is set, with the format error', () => {
+    expect(validateField('phoneNumber', '415.555.0123')).toEqual({
+      field: 'phoneNumber',
+      code: 'INVALID_FORMAT',
+      message: 'Invalid phone number. Include the country code, e.g. +14155550123.'
+    });
+  });
+
+  it('rejects numbers that are too short or contain letters', () => {
+    expect(validateField('phoneNumber', '+1 555')).toMatchObject({ code: 'INVALID_FORMAT' });
+    expect(validateField('phoneNumber', '+1 415 CALL NOW')).toMatchObject({ code: 'INVALID_FORMAT' });
+  });
+});
@@ -0,0 +1,121 @@
+// Scoreboard stream: a stream outlives its last listener for a grace period, so reconnects can resume,
+// and a failed database listener keeps the last snapshot until the stream resubscribes
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { updateScore, type Team } from '@/lib/firestore';
+import { setTeamRepository, type TeamRepository } from '@/lib/teamRepository';
+import { createMemoryTeamRepository } from '@/lib/memoryTeamRepository';
+import {
+  openScoreboardStream,
+  STREAM_GRACE_MS,
+  RESUBSCRIBE_DELAY_MS,
+  type ScoreboardStreamEvent
+} from '@/lib/scoreboardStream';
+
+const TEAM: Team = {
+  uid: 'qK234',
+  teamNumber: 1,
+  teamName: 'Raiders',
+  player1: 'Alice',
+  player2: 'Bob',
+  email: 'team@example.com',
+  phoneNumber: '+14155550123',
+  score: 0,
+  createdAt: 1700000000000
+};
+
+// Streams are shared per event for the whole module, so every test uses its own event
+let eventCount = 0;
+
+describe('openScoreboardStream', () => {
+  let repository: TeamRepository;
+  let eventId: string;
+
+  const open = (lastEventId: string | null) => {
+    const received: ScoreboardStreamEvent[] = [];
+    const close = openScoreboardStream(eventId, lastEventId, event => received.push(event));
+    return { received, close };
+  };
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    eventCount += 1;
+    eventId = `stream-test-${eventCount}`;
+    repository = createMemoryTeamRepository();
+    setTeamRepository(repository);
+    await repository.createTeam(eventId, TEAM);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('resumes a client that reconnects within the grace period', async () => {
+    const first = open(null);
+    const lastEventId = first.received[first.received.length - 1].id!;
+    first.close();
+
+    await updateScore(eventId, TEAM.uid, 10, { source: 'unity', reason: 'while away' });
+    vi.advanceTimersByTime(STREAM_GRACE_MS - 1000);
+
+    const second = open(lastEventId);
+    expect(second.received.map(event => event.event)).toEqual(['score', 'scoreboard']);
+    second.close();
+  });
+
+  it('keeps the stream while a reconnected client is listening', async () => {
+    const first = open(null);
+    first.close();
+    const second = open(null);
+
+    vi.advanceTimersByTime(STREAM_GRACE_MS * 2);
+    await updateScore(eventId, TEAM.uid, 10, { source: 'unity', reason: 'still listening' });
+
+    expect(second.received.map(event => event.event)).toEqual(['scoreboard', 'score', 'scoreboard']);
+    second.close();
+  });
+
+  it('unsubscribes once the grace period passes with no listeners', async () => {
+    const subscribe = vi.spyOn(repository, 'subscribeToScoreboard');
+    const first = open(null);
+    const lastEventId = first.received[0].id!;
+    first.close();
+
+    vi.advanceTimersByTime(STREAM_GRACE_MS);
+    const second = open(lastEventId);
+
+    expect(subscribe).toHaveBeenCalledTimes(2);
+    expect(second.received).toHaveLength(1);
+    expect(second.received[0].id).not.toBe(lastEventId);
+    second.close();
+  });
+
+  it('keeps the last snapshot when the database listener fails, then resubscribes', async () => {
+    await updateScore(eventId, TEAM.uid, 10, { source: 'unity', reason: 'before the failure' });
+    let fail: (error: Error) => void = () => {};
+    const subscribe = repository.subscribeToScoreboard.bind(repository);
+    vi.spyOn(repository, 'subscribeToScoreboard').mockImplementationOnce((id, callback, onError) => {
+      fail = onError!;
+      return subscribe(id, callback);
+    });
+
+    const first = open(null);
+    fail(new Error('permission_denied'));
+
+    expect(first.received.map(event => event.event)).toEqual(['scoreboard', 'stream-error']);
+    expect(first.received[1].id).toBeUndefined();
+
+    // A client joining while the listener is down still gets the last scoreboard
+    const second = open(null);
+    expect(second.received.map(event => event.event)).toEqual(['scoreboard', 'stream-error']);
+    expect(second.received[0].data).toMatchObject({ teams: [{ teamName: 'Raiders', score: 10 }] });
+
+    // The first scoreboard after resubscribing is sent even though nothing changed
+    vi.advanceTimersByTime(RESUBSCRIBE_DELAY_MS);
+    expect(first.received.map(event => event.event)).toEqual(['scoreboard', 'stream-error', 'scoreboard']);
+    expect(first.received[2].data).toMatchObject({ teams: [{ teamName: 'Raiders', score: 10 }] });
+
+    first.close();
+    second.close();
+  });
+});
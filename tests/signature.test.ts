@@ -0,0 +1,85 @@
+// Request signing: signed routes fail closed without a secret, and accept only correctly signed requests
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import updateScoreHandler from '@/pages/api/v1/update-score';
+import { getTeam, type Team } from '@/lib/firestore';
+import { issueTeamToken } from '@/lib/teamTokens';
+import { computeSignature, SIGNATURE_HEADER, TIMESTAMP_HEADER } from '@/lib/signature';
+import { setTeamRepository } from '@/lib/teamRepository';
+import { createMemoryTeamRepository } from '@/lib/memoryTeamRepository';
+import { callHandler } from './apiRequests';
+
+const EVENT_ID = 'test-hunt';
+const URL = `/api/v1/update-score?event=${EVENT_ID}`;
+const SECRET = 'test-signing-secret';
+
+const TEAM: Team = {
+  uid: 'qK234',
+  teamNumber: 1,
+  teamName: 'Raiders',
+  player1: 'Alice',
+  player2: 'Bob',
+  email: 'team@example.com',
+  phoneNumber: '+14155550123',
+  score: 0,
+  createdAt: 1700000000000
+};
+
+describe('signed routes', () => {
+  let token: string;
+  const body = { uid: TEAM.uid, scoreIncrement: 10 };
+
+  const send = (headers: Record<string, string> = {}) =>
+    callHandler(updateScoreHandler, {
+      url: URL,
+      query: { event: EVENT_ID },
+      headers: { 'x-team-token': token, ...headers },
+      body
+    });
+
+  const signedHeaders = () => {
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    return {
+      [TIMESTAMP_HEADER]: timestamp,
+      [SIGNATURE_HEADER]: computeSignature(SECRET, timestamp, 'POST', URL, JSON.stringify(body))
+    };
+  };
+
+  beforeEach(async () => {
+    const repository = createMemoryTeamRepository();
+    setTeamRepository(repository);
+    await repository.createTeam(EVENT_ID, TEAM);
+    token = await issueTeamToken(EVENT_ID, TEAM.uid);
+    delete process.env.SIGNATURE_REQUIRED;
+  });
+
+  afterEach(() => {
+    delete process.env.UNITY_SIGNING_SECRET;
+    process.env.SIGNATURE_REQUIRED = 'false';
+  });
+
+  it('refuses every request when no signing secret is configured', async () => {
+    const response = await send(signedHeaders());
+
+    expect(response.statusCode).toBe(500);
+    expect((await getTeam(EVENT_ID, TEAM.uid))!.score).toBe(0);
+  });
+
+  it('accepts unsigned requests only when signing was turned off explicitly', async () => {
+    process.env.SIGNATURE_REQUIRED = 'false';
+
+    expect((await send()).statusCode).toBe(200);
+  });
+
+  it('accepts a correctly signed request and refuses an unsigned one', async () => {
+    process.env.UNITY_SIGNING_SECRET = SECRET;
+
+    const unsigned = await send();
+    const signed = await send(signedHeaders());
+
+    expect(unsigned.statusCode).toBe(401);
+    expect(unsigned.body.code).toBe('SIGNATURE_MISSING');
+    expect(signed.statusCode).toBe(200);
+    expect((await getTeam(EVENT_ID, TEAM.uid))!.score).toBe(10);
+  });
+});
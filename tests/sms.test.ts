@@ -0,0 +1,53 @@
+// SMS delivery: no silent mock in production, and tracked deliveries expire
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { sendSms, getSmsDelivery, setSmsProvider, createMockSmsProvider, SMS_DELIVERIES_NODE } from '@/lib/sms';
+import { setTeamRepository, type TeamRepository } from '@/lib/teamRepository';
+import { createMemoryTeamRepository } from '@/lib/memoryTeamRepository';
+
+const PHONE = '+14155550123';
+
+describe('sendSms', () => {
+  let repository: TeamRepository;
+
+  beforeEach(() => {
+    repository = createMemoryTeamRepository();
+    setTeamRepository(repository);
+    setSmsProvider(null);
+  });
+
+  afterEach(() => {
+    setSmsProvider(null);
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('fails in production when no provider is configured', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('TEXTBELT_API_KEY', '');
+    vi.stubEnv('SMS_PROVIDER', '');
+
+    const result = await sendSms(PHONE, 'Your code: 123456');
+
+    expect(result).toMatchObject({ messageId: null, status: 'failed' });
+  });
+
+  it('uses the mock in production only when it is asked for', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('SMS_PROVIDER', 'mock');
+
+    expect((await sendSms(PHONE, 'Your code: 123456')).messageId).toBeTruthy();
+  });
+
+  it('keeps a delivery for a day, then lets it expire', async () => {
+    setSmsProvider(createMockSmsProvider());
+    const sent = await sendSms(PHONE, 'Your code: 123456');
+    const start = Date.now();
+
+    expect(await getSmsDelivery(sent.messageId!)).toMatchObject({ status: 'delivered', to: '+14*****0123' });
+
+    vi.spyOn(Date, 'now').mockReturnValue(start + 25 * 60 * 60 * 1000);
+    expect(await getSmsDelivery(sent.messageId!)).toBeNull();
+    expect(await repository.deleteExpiredKeys(SMS_DELIVERIES_NODE, Date.now(), 10)).toBe(1);
+  });
+});
@@ -0,0 +1,86 @@
+// Team index: registrations never rebuild the index themselves, and claims wait out an organizer rebuild
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createTeamWithUniqueUid, type Team } from '@/lib/firestore';
+import { findIndexedUid, rebuildTeamIndex, REBUILD_DRAIN_MS } from '@/lib/teamIndex';
+import { setTeamRepository, type TeamRepository } from '@/lib/teamRepository';
+import { createMemoryTeamRepository } from '@/lib/memoryTeamRepository';
+
+const EVENT_ID = 'test-hunt';
+
+const EXISTING: Team = {
+  uid: 'AAAAA',
+  teamNumber: 1,
+  teamName: 'Raiders',
+  player1: 'Alice',
+  player2: 'Bob',
+  email: 'raiders@example.com',
+  phoneNumber: '+14155550123',
+  score: 0,
+  createdAt: 1700000000000
+};
+
+const NEW_TEAM: Omit<Team, 'uid'> = {
+  teamNumber: 2,
+  teamName: 'Sea Dogs',
+  player1: 'Carol',
+  player2: 'Dave',
+  email: 'seadogs@example.com',
+  phoneNumber: '+14155550124',
+  score: 0,
+  createdAt: 1700000001000
+};
+
+describe('team index', () => {
+  let repository: TeamRepository;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setTimeout'] });
+    repository = createMemoryTeamRepository();
+    setTeamRepository(repository);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const rebuild = async () => {
+    const pending = rebuildTeamIndex(EVENT_ID);
+    await vi.advanceTimersByTimeAsync(REBUILD_DRAIN_MS);
+    return pending;
+  };
+
+  it('starts an empty index for a new event', async () => {
+    const team = await createTeamWithUniqueUid(EVENT_ID, NEW_TEAM);
+
+    expect(await findIndexedUid(EVENT_ID, 'names', 'Sea Dogs')).toBe(team.uid);
+  });
+
+  it('refuses registrations for an event whose teams were never indexed, until an organizer rebuilds it', async () => {
+    await repository.createTeam(EVENT_ID, EXISTING);
+
+    await expect(createTeamWithUniqueUid(EVENT_ID, NEW_TEAM))
+      .rejects.toMatchObject({ status: 503, code: 'TEAM_INDEX_UNAVAILABLE' });
+    expect(await repository.getTeamIndexMeta(EVENT_ID)).toBeNull();
+
+    await rebuild();
+
+    expect(await findIndexedUid(EVENT_ID, 'names', 'Raiders')).toBe('AAAAA');
+    await expect(createTeamWithUniqueUid(EVENT_ID, NEW_TEAM)).resolves.toMatchObject({ teamName: 'Sea Dogs' });
+  });
+
+  it('refuses claims and a second rebuild while a rebuild runs', async () => {
+    await repository.createTeam(EVENT_ID, EXISTING);
+    const running = rebuildTeamIndex(EVENT_ID);
+
+    await expect(createTeamWithUniqueUid(EVENT_ID, NEW_TEAM))
+      .rejects.toMatchObject({ code: 'TEAM_INDEX_UNAVAILABLE' });
+    await expect(rebuildTeamIndex(EVENT_ID)).rejects.toMatchObject({ code: 'TEAM_INDEX_UNAVAILABLE' });
+
+    await vi.advanceTimersByTimeAsync(REBUILD_DRAIN_MS);
+    expect((await running).names).toBe(1);
+
+    const team = await createTeamWithUniqueUid(EVENT_ID, NEW_TEAM);
+    expect(await findIndexedUid(EVENT_ID, 'emails', 'seadogs@example.com')).toBe(team.uid);
+  });
+});
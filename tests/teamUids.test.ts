@@ -0,0 +1,107 @@
+// UID allocation: collisions retry with a fresh UID and never overwrite or leak index claims
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createTeamWithUniqueUid, getTeam, type Team } from '@/lib/firestore';
+import { findIndexedUid, rebuildTeamIndex, REBUILD_DRAIN_MS } from '@/lib/teamIndex';
+import { setTeamRepository, type TeamRepository } from '@/lib/teamRepository';
+import { createMemoryTeamRepository } from '@/lib/memoryTeamRepository';
+
+const EVENT_ID = 'test-hunt';
+
+const EXISTING: Team = {
+  uid: 'AAAAA',
+  teamNumber: 1,
+  teamName: 'Raiders',
+  player1: 'Alice',
+  player2: 'Bob',
+  email: 'raiders@example.com',
+  phoneNumber: '+14155550123',
+  score: 40,
+  createdAt: 1700000000000
+};
+
+const NEW_TEAM: Omit<Team, 'uid'> = {
+  teamNumber: 2,
+  teamName: 'Sea Dogs',
+  player1: 'Carol',
+  player2: 'Dave',
+  email: 'seadogs@example.com',
+  phoneNumber: '+14155550124',
+  score: 0,
+  createdAt: 1700000001000
+};
+
+/**
+ * UID generator that hands out the given UIDs in order, counting the calls
+ */
+function fixedUids(uids: string[]): { next: () => string; calls: () => number } {
+  let index = 0;
+  return {
+    next: () => uids[Math.min(index++, uids.length - 1)],
+    calls: () => index
+  };
+}
+
+describe('createTeamWithUniqueUid', () => {
+  let repository: TeamRepository;
+
+  beforeEach(async () => {
+    repository = createMemoryTeamRepository();
+    setTeamRepository(repository);
+    await repository.createTeam(EVENT_ID, EXISTING);
+
+    // The existing team predates the index, so index it the way an organizer would
+    vi.useFakeTimers({ toFake: ['setTimeout'] });
+    const rebuild = rebuildTeamIndex(EVENT_ID);
+    await vi.advanceTimersByTimeAsync(REBUILD_DRAIN_MS);
+    await rebuild;
+    vi.useRealTimers();
+  });
+
+  it('moves on to the next UID when the first is taken', async () => {
+    const uids = fixedUids(['AAAAA', 'BBBBB']);
+
+    const team = await createTeamWithUniqueUid(EVENT_ID, NEW_TEAM, uids.next);
+
+    expect(team.uid).toBe('BBBBB');
+    expect(uids.calls()).toBe(2);
+    expect(await getTeam(EVENT_ID, 'BBBBB')).toMatchObject({ teamName: 'Sea Dogs' });
+  });
+
+  it('leaves the team holding the taken UID untouched', async () => {
+    await createTeamWithUniqueUid(EVENT_ID, NEW_TEAM, fixedUids(['AAAAA', 'BBBBB']).next);
+
+    expect(await getTeam(EVENT_ID, 'AAAAA')).toEqual(EXISTING);
+    expect(await findIndexedUid(EVENT_ID, 'names', 'Raiders')).toBe('AAAAA');
+    expect(await findIndexedUid(EVENT_ID, 'emails', 'raiders@example.com')).toBe('AAAAA');
+  });
+
+  it('hands the new name and email to the UID that was used', async () => {
+    await createTeamWithUniqueUid(EVENT_ID, NEW_TEAM, fixedUids(['AAAAA', 'BBBBB']).next);
+
+    expect(await findIndexedUid(EVENT_ID, 'names', 'Sea Dogs')).toBe('BBBBB');
+    expect(await findIndexedUid(EVENT_ID, 'emails', 'seadogs@example.com')).toBe('BBBBB');
+  });
+
+  it('skips the UID of a deleted team that still has a ledger', async () => {
+    await repository.appendScoreEvent(EVENT_ID, 'CCCCC', 10, { source: 'unity' });
+    const uids = fixedUids(['CCCCC', 'DDDDD']);
+
+    const team = await createTeamWithUniqueUid(EVENT_ID, NEW_TEAM, uids.next);
+
+    expect(team.uid).toBe('DDDDD');
+    expect(await getTeam(EVENT_ID, 'CCCCC')).toBeNull();
+  });
+
+  it('gives up after MAX_UID_ATTEMPTS collisions and releases its claims', async () => {
+    const uids = fixedUids(['AAAAA']);
+
+    await expect(createTeamWithUniqueUid(EVENT_ID, NEW_TEAM, uids.next))
+      .rejects.toThrow('Could not allocate a unique team UID');
+
+    expect(uids.calls()).toBe(10); // MAX_UID_ATTEMPTS in lib/firestore.ts
+    expect(await getTeam(EVENT_ID, 'AAAAA')).toEqual(EXISTING);
+    expect(await findIndexedUid(EVENT_ID, 'names', 'Sea Dogs')).toBeNull();
+    expect(await findIndexedUid(EVENT_ID, 'emails', 'seadogs@example.com')).toBeNull();
+  });
+});
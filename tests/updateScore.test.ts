@@ -0,0 +1,64 @@
+// Score updates against the in-memory store: every change lands with its own ledger event.
+// The store applies changes synchronously, so races are covered by tests/firebaseTeamRepository.test.ts.
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { updateScore, getTeam, getScoreEvents, getPublicScoreboard, type Team } from '@/lib/firestore';
+import { setTeamRepository, type TeamRepository } from '@/lib/teamRepository';
+import { createMemoryTeamRepository } from '@/lib/memoryTeamRepository';
+
+const EVENT_ID = 'test-hunt';
+
+const TEAM: Team = {
+  uid: 'qK234',
+  teamNumber: 1,
+  teamName: 'Raiders',
+  player1: 'Alice',
+  player2: 'Bob',
+  email: 'team@example.com',
+  phoneNumber: '+14155550123',
+  score: 0,
+  createdAt: 1700000000000
+};
+
+describe('updateScore', () => {
+  let repository: TeamRepository;
+
+  beforeEach(async () => {
+    repository = createMemoryTeamRepository();
+    setTeamRepository(repository);
+    await repository.createTeam(EVENT_ID, TEAM);
+  });
+
+  it('applies every increment and records each in the ledger', async () => {
+    const increments = 50;
+
+    await Promise.all(
+      Array.from({ length: increments }, (_, i) =>
+        updateScore(EVENT_ID, TEAM.uid, 10, { source: 'unity', reason: `treasure ${i}` })
+      )
+    );
+
+    const team = await getTeam(EVENT_ID, TEAM.uid);
+    expect(team && team.score).toBe(increments * 10);
+    expect(await getScoreEvents(EVENT_ID, TEAM.uid)).toHaveLength(increments);
+  });
+
+  it('keeps the public scoreboard entry in step with the team', async () => {
+    await Promise.all([
+      updateScore(EVENT_ID, TEAM.uid, 25),
+      updateScore(EVENT_ID, TEAM.uid, -5)
+    ]);
+
+    const [entry] = await getPublicScoreboard(EVENT_ID);
+    expect(entry.score).toBe(20);
+  });
+
+  it('builds the public scoreboard without reading team records', async () => {
+    const listTeams = vi.spyOn(repository, 'listTeams');
+    const getTeamRecord = vi.spyOn(repository, 'getTeam');
+
+    expect(await getPublicScoreboard(EVENT_ID)).toEqual([{ teamName: 'Raiders', teamNumber: 1, score: 0, rank: 1 }]);
+    expect(listTeams).not.toHaveBeenCalled();
+    expect(getTeamRecord).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,21 @@
+// Test runner configuration
+// Tests live in tests/ and run against the in-memory store, so they need no network.
+
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname)
+    }
+  },
+  test: {
+    include: ['tests/**/*.test.ts'],
+    environment: 'node',
+    // Handler tests send unsigned requests; tests/signature.test.ts covers signing itself
+    env: {
+      SIGNATURE_REQUIRED: 'false'
+    }
+  }
+});